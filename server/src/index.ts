@@ -0,0 +1,44 @@
+// Self-hosted signalling server for Pokemon Battle
+//
+// Configuration (environment variables):
+//   PORT            listen port (default 9000)
+//   HOST            listen address (default all interfaces)
+//   PEERJS_PATH     PeerJS mount path, matches REACT_APP_PEERJS_PATH (default /peerjs)
+//   PEERJS_KEY      PeerJS API key, matches REACT_APP_PEERJS_KEY (default peerjs)
+//   ALIVE_TIMEOUT   ms without a heartbeat before a PeerJS client is dropped (default 60000)
+
+import { createSignallingServer, normalizePath, RELAY_PATH } from './signallingServer';
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const options = {
+  port: parseNumber(process.env.PORT, 9000),
+  host: process.env.HOST || undefined,
+  path: process.env.PEERJS_PATH || '/peerjs',
+  key: process.env.PEERJS_KEY || 'peerjs',
+  aliveTimeout: parseNumber(process.env.ALIVE_TIMEOUT, 60000)
+};
+
+const server = createSignallingServer(options);
+
+server.listen()
+  .then(port => {
+    console.log(`🚀 Signalling server listening on port ${port}`);
+    console.log(`📡 PeerJS: ${normalizePath(options.path)} (key "${options.key}")`);
+    console.log(`🔁 Relay:  ${RELAY_PATH}`);
+  })
+  .catch(error => {
+    console.error('❌ Failed to start signalling server:', error);
+    process.exit(1);
+  });
+
+const shutdown = () => {
+  console.log('👋 Shutting down signalling server');
+  server.close().then(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,146 @@
+// PeerJS-compatible signalling broker
+//
+// Speaks the protocol the `peerjs` client library expects from a PeerServer:
+//
+//   GET {path}{key}/id                      -> a fresh random peer ID (text)
+//   WS  {path}peerjs?key=&id=&token=        -> OPEN, then OFFER / ANSWER /
+//                                              CANDIDATE / LEAVE relayed
+//                                              between peers as { type, src, dst, payload }
+//
+// Messages addressed to a peer that isn't connected are answered with EXPIRE,
+// which the client reports as a 'peer-unavailable' error.
+
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+
+interface PeerClient {
+  id: string;
+  token: string;
+  socket: WebSocket;
+  lastSeen: number;
+}
+
+interface PeerJsMessage {
+  type: string;
+  src?: string;
+  dst?: string;
+  payload?: unknown;
+}
+
+const RELAYED_TYPES = new Set(['OFFER', 'ANSWER', 'CANDIDATE', 'LEAVE', 'EXPIRE']);
+
+export class PeerJsBroker {
+  private clients = new Map<string, PeerClient>();
+
+  constructor(
+    private readonly key: string,
+    private readonly aliveTimeout: number
+  ) {}
+
+  /**
+   * Random ID for clients that don't pick their own
+   */
+  generateId(): string {
+    let id = randomUUID();
+    while (this.clients.has(id)) {
+      id = randomUUID();
+    }
+    return id;
+  }
+
+  getPeerIds(): string[] {
+    return Array.from(this.clients.keys());
+  }
+
+  handleConnection(socket: WebSocket, params: URLSearchParams): void {
+    const id = params.get('id');
+    const token = params.get('token');
+    const key = params.get('key');
+
+    if (!id || !token || !key) {
+      this.reject(socket, 'ERROR', 'No id, token, or key supplied to websocket server');
+      return;
+    }
+    if (key !== this.key) {
+      this.reject(socket, 'INVALID-KEY', `Invalid key provided`);
+      return;
+    }
+
+    // The same token means the same client reconnecting - let it take over its ID
+    const existing = this.clients.get(id);
+    if (existing && existing.token !== token) {
+      this.reject(socket, 'ID-TAKEN', 'ID is taken');
+      return;
+    }
+    existing?.socket.terminate();
+
+    const client: PeerClient = { id, token, socket, lastSeen: Date.now() };
+    this.clients.set(id, client);
+    this.send(socket, { type: 'OPEN' });
+
+    socket.on('message', (raw) => this.handleMessage(client, raw.toString()));
+    socket.on('close', () => {
+      if (this.clients.get(id) === client) {
+        this.clients.delete(id);
+      }
+    });
+    socket.on('error', () => socket.terminate());
+  }
+
+  /**
+   * Drop clients whose heartbeats stopped, e.g. a laptop that went to sleep
+   */
+  expireIdleClients(now: number = Date.now()): void {
+    this.clients.forEach(client => {
+      if (now - client.lastSeen > this.aliveTimeout) {
+        client.socket.terminate();
+      }
+    });
+  }
+
+  close(): void {
+    this.clients.forEach(client => client.socket.terminate());
+    this.clients.clear();
+  }
+
+  private handleMessage(client: PeerClient, raw: string): void {
+    let message: PeerJsMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      return;
+    }
+    // Valid JSON isn't necessarily a message - `null` or `42` would throw below
+    if (typeof message !== 'object' || message === null) {
+      return;
+    }
+
+    client.lastSeen = Date.now();
+    if (message.type === 'HEARTBEAT' || !RELAYED_TYPES.has(message.type) || typeof message.dst !== 'string') {
+      return;
+    }
+
+    const destination = this.clients.get(message.dst);
+    if (destination) {
+      this.send(destination.socket, {
+        type: message.type,
+        src: client.id,
+        dst: message.dst,
+        payload: message.payload
+      });
+    } else if (message.type !== 'LEAVE' && message.type !== 'EXPIRE') {
+      this.send(client.socket, { type: 'EXPIRE', src: message.dst, dst: client.id });
+    }
+  }
+
+  private reject(socket: WebSocket, type: string, msg: string): void {
+    this.send(socket, { type, payload: { msg } });
+    socket.close();
+  }
+
+  private send(socket: WebSocket, message: PeerJsMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,129 @@
+// WebSocket vote relay broker
+//
+// Server side of the app's relay transport (src/services/transports/relayTransport.ts).
+// It only routes JSON frames between registered peer IDs:
+//
+//   client -> relay: REGISTER { id } | CONNECT / ACCEPT / DATA / CLOSE { dst, channelId, ... }
+//   relay -> client: OPEN { id } | ID-TAKEN { id } | UNAVAILABLE { dst, channelId }
+//                    CONNECT / ACCEPT / DATA / CLOSE with `src` instead of `dst`
+//
+// When a client drops, the other end of each of its channels gets a CLOSE.
+
+import WebSocket from 'ws';
+
+interface RelayFrame {
+  type: string;
+  id?: string;
+  src?: string;
+  dst?: string;
+  channelId?: string;
+  metadata?: unknown;
+  data?: unknown;
+}
+
+const FORWARDED_TYPES = new Set(['CONNECT', 'ACCEPT', 'DATA', 'CLOSE']);
+
+export class RelayBroker {
+  private clients = new Map<string, WebSocket>();
+  // channelId -> the two peer IDs it joins
+  private channels = new Map<string, [string, string]>();
+
+  getPeerIds(): string[] {
+    return Array.from(this.clients.keys());
+  }
+
+  handleConnection(socket: WebSocket): void {
+    let peerId: string | null = null;
+
+    socket.on('message', (raw) => {
+      let frame: RelayFrame;
+      try {
+        frame = JSON.parse(raw.toString());
+      } catch (error) {
+        return;
+      }
+      // Valid JSON isn't necessarily a frame - `null` or `42` would throw below
+      if (typeof frame !== 'object' || frame === null) {
+        return;
+      }
+
+      if (frame.type === 'REGISTER') {
+        if (peerId || typeof frame.id !== 'string' || !frame.id) return;
+        if (this.clients.has(frame.id)) {
+          this.send(socket, { type: 'ID-TAKEN', id: frame.id });
+          return;
+        }
+
+        peerId = frame.id;
+        this.clients.set(peerId, socket);
+        this.send(socket, { type: 'OPEN', id: peerId });
+        return;
+      }
+
+      if (peerId) {
+        this.forward(peerId, socket, frame);
+      }
+    });
+
+    socket.on('close', () => {
+      if (peerId && this.clients.get(peerId) === socket) {
+        this.clients.delete(peerId);
+        this.closeChannelsOf(peerId);
+      }
+    });
+    socket.on('error', () => socket.terminate());
+  }
+
+  close(): void {
+    this.clients.forEach(socket => socket.terminate());
+    this.clients.clear();
+    this.channels.clear();
+  }
+
+  private forward(src: string, socket: WebSocket, frame: RelayFrame): void {
+    if (!FORWARDED_TYPES.has(frame.type) || typeof frame.dst !== 'string' || typeof frame.channelId !== 'string') {
+      return;
+    }
+
+    const { dst, channelId } = frame;
+    const destination = this.clients.get(dst);
+    if (!destination) {
+      if (frame.type !== 'CLOSE') {
+        this.send(socket, { type: 'UNAVAILABLE', dst, channelId });
+      }
+      return;
+    }
+
+    if (frame.type === 'CONNECT') {
+      this.channels.set(channelId, [src, dst]);
+    } else if (frame.type === 'CLOSE') {
+      this.channels.delete(channelId);
+    }
+
+    this.send(destination, {
+      type: frame.type,
+      src,
+      channelId,
+      metadata: frame.metadata,
+      data: frame.data
+    });
+  }
+
+  private closeChannelsOf(peerId: string): void {
+    this.channels.forEach(([a, b], channelId) => {
+      if (a !== peerId && b !== peerId) return;
+
+      const other = this.clients.get(a === peerId ? b : a);
+      if (other) {
+        this.send(other, { type: 'CLOSE', src: peerId, channelId });
+      }
+      this.channels.delete(channelId);
+    });
+  }
+
+  private send(socket: WebSocket, frame: RelayFrame): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+}
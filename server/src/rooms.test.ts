@@ -0,0 +1,11 @@
+import assert from 'assert/strict';
+import { test } from 'node:test';
+import { listRoomPeers } from './rooms';
+
+test('lists only the peers of the requested room, leaving out the roster host', () => {
+  const peerIds = ['abc_1', 'abc_roster', 'abcd_1', 'xyz_1', 'abc_2'];
+
+  assert.deepEqual(listRoomPeers(peerIds, 'abc'), ['abc_1', 'abc_2']);
+  assert.deepEqual(listRoomPeers(peerIds, 'xyz'), ['xyz_1']);
+  assert.deepEqual(listRoomPeers(peerIds, 'nobody'), []);
+});
@@ -0,0 +1,13 @@
+// Room-scoped peer listing shared by both brokers
+//
+// Peer IDs are `${roomId}_${suffix}` (see src/utils/p2pHelpers.ts in the app),
+// and the room's roster host uses the reserved `${roomId}_roster` ID.
+
+/**
+ * IDs of the peers registered in a room, oldest registration first
+ */
+export const listRoomPeers = (peerIds: Iterable<string>, roomId: string): string[] => {
+  const prefix = `${roomId}_`;
+  const rosterSlot = `${roomId}_roster`;
+  return Array.from(peerIds).filter(peerId => peerId.startsWith(prefix) && peerId !== rosterSlot);
+};
@@ -0,0 +1,204 @@
+import assert from 'assert/strict';
+import http from 'http';
+import { after, before, test } from 'node:test';
+import WebSocket from 'ws';
+import { createSignallingServer, RELAY_PATH } from './signallingServer';
+
+type Frame = Record<string, unknown>;
+
+/**
+ * WebSocket client that queues incoming JSON frames for the test to take in order
+ */
+class TestClient {
+  private frames: Frame[] = [];
+  private waiting: ((frame: Frame) => void)[] = [];
+
+  private constructor(readonly socket: WebSocket) {
+    socket.on('message', (raw) => {
+      const frame = JSON.parse(raw.toString());
+      const waiter = this.waiting.shift();
+      if (waiter) {
+        waiter(frame);
+      } else {
+        this.frames.push(frame);
+      }
+    });
+  }
+
+  static connect(url: string): Promise<TestClient> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const client = new TestClient(socket);
+      socket.once('open', () => resolve(client));
+      socket.once('error', reject);
+    });
+  }
+
+  next(): Promise<Frame> {
+    const frame = this.frames.shift();
+    return frame ? Promise.resolve(frame) : new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  send(frame: Frame): void {
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      this.socket.once('close', () => resolve());
+      this.socket.close();
+    });
+  }
+}
+
+const KEY = 'testkey';
+const server = createSignallingServer({ port: 0, host: '127.0.0.1', path: '/', key: KEY, aliveTimeout: 60000 });
+let base = '';
+
+before(async () => {
+  const port = await server.listen();
+  base = `127.0.0.1:${port}`;
+});
+
+after(() => server.close());
+
+const get = (path: string): Promise<{ status: number; body: string }> => new Promise((resolve, reject) => {
+  http.get(`http://${base}${path}`, (res) => {
+    let body = '';
+    res.on('data', chunk => { body += chunk; });
+    res.on('end', () => resolve({ status: res.statusCode as number, body }));
+  }).on('error', reject);
+});
+
+const getJson = async (path: string): Promise<unknown> => JSON.parse((await get(path)).body);
+
+/**
+ * Whether the server still answers - a crash would refuse the connection
+ */
+const assertServerAlive = async (): Promise<void> => {
+  assert.deepEqual(await getJson('/health'), { status: 'ok', peerjsClients: 0, relayClients: 0 });
+};
+
+/**
+ * Poll a room listing until it matches, since a close reaches the server asynchronously
+ */
+const waitForPeers = async (path: string, expected: string[]): Promise<void> => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const peers = await getJson(path);
+    if (JSON.stringify(peers) === JSON.stringify(expected)) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  assert.deepEqual(await getJson(path), expected);
+};
+
+const registerRelay = async (id: string): Promise<TestClient> => {
+  const client = await TestClient.connect(`ws://${base}${RELAY_PATH}`);
+  client.send({ type: 'REGISTER', id });
+  assert.deepEqual(await client.next(), { type: 'OPEN', id });
+  return client;
+};
+
+const connectPeerJs = async (id: string): Promise<TestClient> => {
+  const client = await TestClient.connect(`ws://${base}/peerjs?key=${KEY}&id=${id}&token=${id}_token`);
+  assert.deepEqual(await client.next(), { type: 'OPEN' });
+  return client;
+};
+
+test('relay rooms list peers as they join and leave', async () => {
+  const roomPath = `${RELAY_PATH}/rooms/relayroom/peers`;
+  assert.deepEqual(await getJson(roomPath), []);
+
+  const first = await registerRelay('relayroom_a');
+  const second = await registerRelay('relayroom_b');
+  const roster = await registerRelay('relayroom_roster');
+  const stranger = await registerRelay('elsewhere_a');
+  await waitForPeers(roomPath, ['relayroom_a', 'relayroom_b']);
+
+  await first.close();
+  await waitForPeers(roomPath, ['relayroom_b']);
+
+  await Promise.all([second.close(), roster.close(), stranger.close()]);
+  await waitForPeers(roomPath, []);
+});
+
+test('a relay ID can only be registered once at a time', async () => {
+  const owner = await registerRelay('dupe_a');
+  const intruder = await TestClient.connect(`ws://${base}${RELAY_PATH}`);
+
+  intruder.send({ type: 'REGISTER', id: 'dupe_a' });
+  assert.deepEqual(await intruder.next(), { type: 'ID-TAKEN', id: 'dupe_a' });
+
+  await Promise.all([owner.close(), intruder.close()]);
+});
+
+test('the relay forwards channel frames and closes channels when a peer drops', async () => {
+  const alice = await registerRelay('fwd_alice');
+  const bob = await registerRelay('fwd_bob');
+
+  alice.send({ type: 'CONNECT', dst: 'fwd_bob', channelId: 'ch1', metadata: { roomProof: 'proof' } });
+  assert.deepEqual(await bob.next(), { type: 'CONNECT', src: 'fwd_alice', channelId: 'ch1', metadata: { roomProof: 'proof' } });
+
+  bob.send({ type: 'ACCEPT', dst: 'fwd_alice', channelId: 'ch1' });
+  assert.deepEqual(await alice.next(), { type: 'ACCEPT', src: 'fwd_bob', channelId: 'ch1' });
+
+  alice.send({ type: 'DATA', dst: 'fwd_bob', channelId: 'ch1', data: { type: 'VOTE', payload: 1 } });
+  assert.deepEqual(await bob.next(), { type: 'DATA', src: 'fwd_alice', channelId: 'ch1', data: { type: 'VOTE', payload: 1 } });
+
+  // Frames to a peer that isn't there bounce straight back
+  alice.send({ type: 'CONNECT', dst: 'fwd_nobody', channelId: 'ch2' });
+  assert.deepEqual(await alice.next(), { type: 'UNAVAILABLE', dst: 'fwd_nobody', channelId: 'ch2' });
+
+  await alice.close();
+  assert.deepEqual(await bob.next(), { type: 'CLOSE', src: 'fwd_alice', channelId: 'ch1' });
+
+  await bob.close();
+});
+
+test('PeerJS rooms list peers as they join and leave', async () => {
+  const roomPath = `/${KEY}/rooms/peerroom/peers`;
+
+  const first = await connectPeerJs('peerroom_a');
+  const second = await connectPeerJs('peerroom_b');
+  await waitForPeers(roomPath, ['peerroom_a', 'peerroom_b']);
+
+  // Signalling messages are relayed with the sender stamped on
+  first.send({ type: 'OFFER', dst: 'peerroom_b', payload: { sdp: 'offer' } });
+  assert.deepEqual(await second.next(), { type: 'OFFER', src: 'peerroom_a', dst: 'peerroom_b', payload: { sdp: 'offer' } });
+
+  await second.close();
+  await waitForPeers(roomPath, ['peerroom_a']);
+
+  first.send({ type: 'OFFER', dst: 'peerroom_b', payload: { sdp: 'offer' } });
+  assert.deepEqual(await first.next(), { type: 'EXPIRE', src: 'peerroom_b', dst: 'peerroom_a' });
+
+  await first.close();
+  await waitForPeers(roomPath, []);
+});
+
+test('frames that are valid JSON but not objects are ignored on both sockets', async () => {
+  const relayClient = await registerRelay('junk_relay');
+  const peerJsClient = await connectPeerJs('junk_peerjs');
+
+  for (const junk of ['null', '42', '"text"', 'true']) {
+    relayClient.socket.send(junk);
+    peerJsClient.socket.send(junk);
+  }
+
+  // Both sockets still work after the junk
+  peerJsClient.send({ type: 'OFFER', dst: 'junk_nobody', payload: {} });
+  assert.deepEqual(await peerJsClient.next(), { type: 'EXPIRE', src: 'junk_nobody', dst: 'junk_peerjs' });
+  relayClient.send({ type: 'CONNECT', dst: 'junk_nobody', channelId: 'ch1' });
+  assert.deepEqual(await relayClient.next(), { type: 'UNAVAILABLE', dst: 'junk_nobody', channelId: 'ch1' });
+
+  await Promise.all([relayClient.close(), peerJsClient.close()]);
+  await waitForPeers(`${RELAY_PATH}/rooms/junk/peers`, []);
+  await waitForPeers(`/${KEY}/rooms/junk/peers`, []);
+  await assertServerAlive();
+});
+
+test('a malformed room ID is a bad request, not a crash', async () => {
+  assert.equal((await get(`/${KEY}/rooms/%E0%A4%A/peers`)).status, 400);
+  assert.equal((await get(`${RELAY_PATH}/rooms/%E0%A4%A/peers`)).status, 400);
+
+  await assertServerAlive();
+});
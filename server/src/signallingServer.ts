@@ -0,0 +1,167 @@
+// HTTP + WebSocket front for the signalling brokers
+//
+//   {path}{key}/id                     PeerJS ID allocation
+//   {path}peerjs                       PeerJS signalling socket
+//   {path}{key}/rooms/:roomId/peers    peers registered in a PeerJS room
+//   /relay                             vote relay socket
+//   /relay/rooms/:roomId/peers         peers registered in a relay room
+//   /health                            liveness probe
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { PeerJsBroker } from './peerjsBroker';
+import { RelayBroker } from './relayBroker';
+import { listRoomPeers } from './rooms';
+
+export const RELAY_PATH = '/relay';
+
+export interface SignallingServerOptions {
+  port: number;
+  host?: string;
+  path: string;
+  key: string;
+  // Drop PeerJS clients after this long without a heartbeat
+  aliveTimeout: number;
+}
+
+export interface SignallingServer {
+  /** Start listening; resolves with the bound port (useful with port 0) */
+  listen(): Promise<number>;
+  close(): Promise<void>;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+/**
+ * Ensure a mount path starts and ends with '/'
+ */
+export const normalizePath = (path: string): string => {
+  const trimmed = path.replace(/^\/+|\/+$/g, '');
+  return trimmed ? `/${trimmed}/` : '/';
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendText = (res: ServerResponse, status: number, body: string): void => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+  res.end(body);
+};
+
+/**
+ * List a room's peers. The room ID comes from the path still percent-encoded,
+ * and a malformed encoding is the client's mistake, not a reason to crash.
+ */
+const sendRoomPeers = (res: ServerResponse, peerIds: string[], encodedRoomId: string): void => {
+  let roomId: string;
+  try {
+    roomId = decodeURIComponent(encodedRoomId);
+  } catch (error) {
+    sendText(res, 400, 'Malformed room ID');
+    return;
+  }
+  sendJson(res, 200, listRoomPeers(peerIds, roomId));
+};
+
+export const createSignallingServer = (options: SignallingServerOptions): SignallingServer => {
+  const path = normalizePath(options.path);
+  const peerjs = new PeerJsBroker(options.key, options.aliveTimeout);
+  const relay = new RelayBroker();
+
+  const peerjsApi = `${path}${options.key}/`;
+  const peerjsRoomPattern = new RegExp(`^${escapeRegExp(peerjsApi)}rooms/([^/]+)/peers$`);
+  const relayRoomPattern = new RegExp(`^${escapeRegExp(RELAY_PATH)}/rooms/([^/]+)/peers$`);
+
+  const handleRequest = (req: IncomingMessage, res: ServerResponse): void => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      sendText(res, 405, 'Method not allowed');
+      return;
+    }
+
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === `${peerjsApi}id`) {
+      sendText(res, 200, peerjs.generateId());
+      return;
+    }
+    if (pathname === `${peerjsApi}peers`) {
+      // Global listing is off, as on a default PeerServer - rooms are listed below
+      sendText(res, 401, 'Discovery is disabled; use rooms/:roomId/peers');
+      return;
+    }
+
+    const peerjsRoom = peerjsRoomPattern.exec(pathname);
+    if (peerjsRoom) {
+      sendRoomPeers(res, peerjs.getPeerIds(), peerjsRoom[1]);
+      return;
+    }
+
+    const relayRoom = relayRoomPattern.exec(pathname);
+    if (relayRoom) {
+      sendRoomPeers(res, relay.getPeerIds(), relayRoom[1]);
+      return;
+    }
+
+    if (pathname === '/health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        peerjsClients: peerjs.getPeerIds().length,
+        relayClients: relay.getPeerIds().length
+      });
+      return;
+    }
+
+    sendText(res, 404, 'Not found');
+  };
+
+  const server = http.createServer(handleRequest);
+  const sockets = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === `${path}peerjs`) {
+      sockets.handleUpgrade(req, socket, head, ws => peerjs.handleConnection(ws, url.searchParams));
+    } else if (url.pathname === RELAY_PATH) {
+      sockets.handleUpgrade(req, socket, head, ws => relay.handleConnection(ws));
+    } else {
+      socket.destroy();
+    }
+  });
+
+  let sweepTimer: NodeJS.Timeout | null = null;
+
+  return {
+    listen: () => new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port, options.host, () => {
+        server.off('error', reject);
+        sweepTimer = setInterval(() => peerjs.expireIdleClients(), Math.max(1000, options.aliveTimeout / 2));
+        sweepTimer.unref();
+        resolve((server.address() as AddressInfo).port);
+      });
+    }),
+
+    close: () => new Promise((resolve) => {
+      if (sweepTimer) clearInterval(sweepTimer);
+      peerjs.close();
+      relay.close();
+      sockets.close();
+      server.close(() => resolve());
+    })
+  };
+};
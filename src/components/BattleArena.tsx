@@ -1,80 +1,229 @@
 // Main battle arena component that orchestrates the Pokemon battle
 
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useMemo, useState, useRef } from "react";
 import { useBattleData } from "../hooks/useBattleData";
 import { useBattleContext } from "../context/BattleContext";
 import { useP2P } from "../hooks/useP2P";
 import { useToast } from "../hooks/useToast";
+import { useTournament } from "../hooks/useTournament";
+import { BattleParams, isSameBattle } from "../utils/urlHelpers";
+import { generateInviteCode } from "../utils/roomAccess";
+import { VotingMethod } from "../types/voting";
+import { BracketSize } from "../types/tournament";
+import {
+  findMatchBySession,
+  getCurrentMatch,
+  getMatchResult,
+  getMatchSessionId,
+  getRoundName,
+  getBracketRounds,
+} from "../utils/bracketHelpers";
 import {
   generateBattleId,
-  hasBrowserVotedInBattle,
-  getBrowserVoteForBattle,
+  getVoteChoices,
+  MAX_BATTLE_CANDIDATES,
+  MIN_BATTLE_CANDIDATES,
+  rankCandidates,
+  VOTING_METHOD_LABELS,
+  VOTING_METHODS,
   recordBrowserVote,
+  removeBrowserVote,
 } from "../utils/votingHelpers";
 import PokemonCard from "./Pokemon/PokemonCard";
 import LoadingSpinner from "./UI/LoadingSpinner";
 import ErrorBoundary from "./UI/ErrorBoundary";
 import ConnectionStatus from "./UI/ConnectionStatus";
+import BattleCountdown from "./UI/BattleCountdown";
+import SharePanel from "./UI/SharePanel";
+import RunoffRounds from "./UI/RunoffRounds";
 import ToastContainer from "./UI/ToastContainer";
+import BracketView from "./Tournament/BracketView";
+import TournamentSetup from "./Tournament/TournamentSetup";
+
+// How long a decided tournament match stays on screen before the next one
+const MATCH_RESULT_PAUSE_MS = 5000;
 
 const BattleArena: React.FC = () => {
   const {
-    pokemon1,
-    pokemon2,
+    pokemon,
     isLoading,
     error,
     battleParams,
     startRandomBattle,
+    startBattle,
     refetch,
   } = useBattleData();
   const {
     state,
     startNewBattle,
     castVote,
+    changeVote,
+    retractVote,
     resetBattle,
     getCurrentVotes,
     syncVotes,
+    getBattleTiming,
+    syncBattleTiming,
   } = useBattleContext();
-  const [hasThisPeerVoted, setHasThisPeerVoted] = useState(false);
-  const [browserVoteStatus, setBrowserVoteStatus] = useState<{
-    hasVoted: boolean;
-    pokemonName?: string;
-  }>({ hasVoted: false });
+  // This round's ID - votes, localStorage tracking and the P2P room all hang off it
+  const { inviteCode } = battleParams;
+  const votingMethod = battleParams.votingMethod ?? "plurality";
+  const battleId = generateBattleId(
+    battleParams.pokemonIndexes,
+    battleParams.sessionId,
+    votingMethod
+  );
+  const isLoaded = pokemon.length > 0;
   const { toasts, showToast, hideToast } = useToast();
   const {
     status: p2pStatus,
     connectedPeersCount,
+    incompatiblePeersCount,
+    peerHealth,
+    voteDeliveryStatuses,
     connectionState,
+    lastError: p2pError,
     initialize: initializeP2P,
     reinitialize: reinitializeP2P,
     broadcastVote,
+    announceBattleStart,
     requestSync,
     sendStateToPeer,
   } = useP2P();
+  const { bracket, startTournament, recordResult, leaveTournament } =
+    useTournament();
 
-  // Start battle when Pokemon are loaded
+  // The bracket match this battle is (if any), and the match the tournament
+  // is waiting on - null once it has a champion
+  const tournamentMatch = useMemo(
+    () => (bracket ? findMatchBySession(bracket, battleParams.sessionId) : null),
+    [bracket, battleParams.sessionId]
+  );
+  const nextMatch = useMemo(
+    () => (bracket ? getCurrentMatch(bracket) : null),
+    [bracket]
+  );
+  const isTournamentRunning = nextMatch !== null;
+  const matchDurationMs =
+    bracket && tournamentMatch ? bracket.matchDurationMs : undefined;
+
+  // Start each round once its Pokemon are loaded (a closed round stays closed)
   useEffect(() => {
-    if (pokemon1 && pokemon2 && !state.isActive) {
-      startNewBattle(pokemon1, pokemon2);
+    if (isLoaded && !isLoading && state.battleId !== battleId) {
+      startNewBattle(pokemon, battleId, votingMethod, matchDurationMs);
     }
-  }, [pokemon1, pokemon2, state.isActive, startNewBattle]);
+  }, [
+    pokemon,
+    isLoaded,
+    isLoading,
+    battleId,
+    votingMethod,
+    matchDurationMs,
+    state.battleId,
+    startNewBattle,
+  ]);
+
+  // Record a tournament match's result once its battle closes. Peers that
+  // close it a moment later find it already decided.
+  useEffect(() => {
+    if (
+      tournamentMatch &&
+      !tournamentMatch.result &&
+      state.status === "completed" &&
+      state.battleId === battleId
+    ) {
+      recordResult(getMatchResult(tournamentMatch, state.outcome));
+    }
+  }, [
+    tournamentMatch,
+    state.status,
+    state.battleId,
+    state.outcome,
+    battleId,
+    recordResult,
+  ]);
+
+  // Move on to the tournament's next match - right away when joining, after
+  // a pause to show the result when this tab just watched a match end. Every
+  // peer derives the same match and session, so nobody needs to announce it.
+  useEffect(() => {
+    if (!bracket || !nextMatch || isLoading) {
+      return;
+    }
+    const [top, bottom] = nextMatch.competitors;
+    const sessionId = getMatchSessionId(bracket, nextMatch);
+    if (!top || !bottom || battleParams.sessionId === sessionId) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => {
+        console.log(`🏆 Moving on to tournament match ${nextMatch.id}`);
+        resetBattle();
+        startBattle([top.pokemonIndex, bottom.pokemonIndex], sessionId, inviteCode);
+      },
+      tournamentMatch ? MATCH_RESULT_PAUSE_MS : 0
+    );
+    return () => clearTimeout(timer);
+  }, [
+    bracket,
+    nextMatch,
+    tournamentMatch,
+    isLoading,
+    battleParams.sessionId,
+    inviteCode,
+    resetBattle,
+    startBattle,
+  ]);
 
   // Track the current battle params to detect changes
-  const [currentBattleParams, setCurrentBattleParams] = useState<{
-    pokemon1Index: number;
-    pokemon2Index: number;
-  } | null>(null);
+  const [currentBattleParams, setCurrentBattleParams] =
+    useState<BattleParams | null>(null);
 
   // Track if we've requested initial sync
   const hasRequestedSync = useRef(false);
 
-  // Animation state for vote-to-results transition
-  const [animatedPercentages, setAnimatedPercentages] = useState({
-    pokemon1: 0,
-    pokemon2: 0,
-  });
+  // Set when this tab picked the new matchup, so the room gets told to follow
+  const shouldAnnounceBattle = useRef(false);
+
+  // How many candidates New Battle picks - the current battle's size by default
+  const [candidateCount, setCandidateCount] = useState(MIN_BATTLE_CANDIDATES);
+  useEffect(() => {
+    if (isLoaded) {
+      setCandidateCount(pokemon.length);
+    }
+  }, [isLoaded, pokemon.length]);
+
+  // How New Battle's ballots are counted when it picks more than two Pokemon
+  const [newBattleMethod, setNewBattleMethod] =
+    useState<VotingMethod>("plurality");
+  useEffect(() => {
+    if (isLoaded) {
+      setNewBattleMethod(votingMethod);
+    }
+  }, [isLoaded, votingMethod]);
+
+  // Approval or ranked ballot being filled in, in the order Pokemon were picked
+  const [ballotChoices, setBallotChoices] = useState<string[]>([]);
+  const [isEditingBallot, setIsEditingBallot] = useState(false);
+  useEffect(() => {
+    setBallotChoices([]);
+    setIsEditingBallot(false);
+  }, [battleId]);
+
+  // Animation state for vote-to-results transition, keyed by Pokemon name
+  const [animatedPercentages, setAnimatedPercentages] = useState<
+    Record<string, number>
+  >({});
   const animationInProgress = useRef(false);
 
+  // Card grid columns for the number of candidates (literal class names, so Tailwind keeps them)
+  const getGridColumnsClass = (count: number): string => {
+    if (count <= 2) return "md:grid-cols-2";
+    if (count === 4) return "sm:grid-cols-2 lg:grid-cols-4";
+    return "sm:grid-cols-2 lg:grid-cols-3";
+  };
+
   // Helper function to get connection status text
   const getConnectionStatusText = (status: string): string => {
     switch (status) {
@@ -93,18 +242,17 @@ const BattleArena: React.FC = () => {
 
   // Initialize P2P when Pokemon are loaded for the first time
   useEffect(() => {
-    if (
-      pokemon1 &&
-      pokemon2 &&
-      p2pStatus === "offline" &&
-      !currentBattleParams
-    ) {
-      initializeP2P(battleParams.pokemon1Index, battleParams.pokemon2Index);
+    if (isLoaded && p2pStatus === "offline" && !currentBattleParams) {
+      initializeP2P(
+        battleParams.pokemonIndexes,
+        battleParams.sessionId,
+        battleParams.inviteCode,
+        battleParams.votingMethod
+      );
       setCurrentBattleParams(battleParams);
     }
   }, [
-    pokemon1,
-    pokemon2,
+    isLoaded,
     battleParams,
     p2pStatus,
     initializeP2P,
@@ -114,48 +262,44 @@ const BattleArena: React.FC = () => {
   // Reinitialize P2P when battle parameters change (New Battle)
   useEffect(() => {
     if (
-      pokemon1 &&
-      pokemon2 &&
+      isLoaded &&
       currentBattleParams &&
-      (currentBattleParams.pokemon1Index !== battleParams.pokemon1Index ||
-        currentBattleParams.pokemon2Index !== battleParams.pokemon2Index)
+      !isSameBattle(currentBattleParams, battleParams)
     ) {
       console.log(
-        `🔄 Battle params changed: ${currentBattleParams.pokemon1Index}vs${currentBattleParams.pokemon2Index} → ${battleParams.pokemon1Index}vs${battleParams.pokemon2Index}`
+        `🔄 Battle params changed: ${currentBattleParams.pokemonIndexes.join("vs")} (${currentBattleParams.sessionId}) → ${battleParams.pokemonIndexes.join("vs")} (${battleParams.sessionId})`
       );
 
-      // Reset voting state when Pokemon change
-      setHasThisPeerVoted(false);
-
-      // Reinitialize P2P with new battle params
-      reinitializeP2P(battleParams.pokemon1Index, battleParams.pokemon2Index);
-      setCurrentBattleParams(battleParams);
-    }
-  }, [pokemon1, pokemon2, battleParams, currentBattleParams, reinitializeP2P]);
+      const moveToNewBattle = async () => {
+        // Bring the old room along before leaving it
+        if (shouldAnnounceBattle.current) {
+          shouldAnnounceBattle.current = false;
+          await announceBattleStart(
+            battleParams.pokemonIndexes,
+            battleParams.sessionId,
+            battleParams.votingMethod
+          );
+        }
 
-  // Check browser voting status when Pokemon are loaded or changed
-  useEffect(() => {
-    if (pokemon1 && pokemon2) {
-      const battleId = generateBattleId(
-        battleParams.pokemon1Index,
-        battleParams.pokemon2Index
-      );
-      const hasVoted = hasBrowserVotedInBattle(battleId);
+        // Reinitialize P2P with new battle params
+        await reinitializeP2P(
+          battleParams.pokemonIndexes,
+          battleParams.sessionId,
+          battleParams.inviteCode,
+          battleParams.votingMethod
+        );
+      };
 
-      if (hasVoted) {
-        const browserVote = getBrowserVoteForBattle(battleId);
-        setBrowserVoteStatus({
-          hasVoted: true,
-          pokemonName: browserVote?.pokemonName,
-        });
-        // Don't set hasThisPeerVoted to true - this tab hasn't voted yet
-        setHasThisPeerVoted(false);
-      } else {
-        setBrowserVoteStatus({ hasVoted: false });
-        setHasThisPeerVoted(false);
-      }
+      moveToNewBattle();
+      setCurrentBattleParams(battleParams);
     }
-  }, [pokemon1, pokemon2, battleParams]);
+  }, [
+    isLoaded,
+    battleParams,
+    currentBattleParams,
+    reinitializeP2P,
+    announceBattleStart,
+  ]);
 
   // Request sync when P2P connects and we have peers
   useEffect(() => {
@@ -177,52 +321,89 @@ const BattleArena: React.FC = () => {
     }
   }, [p2pStatus, battleParams]);
 
+  // Surface P2P errors (e.g. a peer sending malformed messages)
+  useEffect(() => {
+    if (p2pError) {
+      showToast(p2pError, "warning", 6000);
+    }
+  }, [p2pError, showToast]);
+
   // Set up P2P event handlers for state sync
   useEffect(() => {
     // Import the P2P service directly to set up event handlers
     import("../services/p2pService").then(({ p2pService }) => {
       // Set up callback to provide current state for sync requests
       p2pService.setCurrentStateCallback(() => getCurrentVotes());
+      p2pService.setBattleStateCallback(() => getBattleTiming());
 
-      // Handle sync requests from other peers (only for initial state sync)
+      // Merge every sync response - the vote set is a CRDT, so this is safe
+      // even when we already hold votes (e.g. after a network partition)
       p2pService.onSyncReceived((syncData) => {
+        if (syncData.battleState) {
+          syncBattleTiming(syncData.battleState);
+        }
         if (syncData.votes && syncData.votes.length > 0) {
-          // Only sync if we have no votes yet (new peer joining)
-          const currentVotes = getCurrentVotes();
-          if (currentVotes.length === 0) {
-            console.log('🔄 Syncing initial state from existing peers');
-            const votes = syncData.votes;
-            syncVotes(votes);
-          } else {
-            console.log('⚠️ Ignoring sync - already have votes (live sync is active)');
-          }
+          syncVotes(syncData.votes);
         }
       });
 
-      // Handle peer connections - send our state to newly connected peers
-      p2pService.onPeerConnected((peerId) => {
-        const currentVotes = getCurrentVotes();
-        if (currentVotes.length > 0) {
-          sendStateToPeer(peerId, currentVotes);
+      // Follow the room when another peer starts a new battle (a private room
+      // stays private). Tournament matches follow the bracket instead.
+      p2pService.onBattleStarted((battle) => {
+        if (isTournamentRunning) {
+          return;
         }
+        console.log(
+          `📣 Following room to battle ${battle.pokemonIndexes.join(" vs ")}`
+        );
+        resetBattle();
+        startBattle(
+          battle.pokemonIndexes,
+          battle.sessionId,
+          inviteCode,
+          battle.votingMethod
+        );
+      });
+
+      // Handle peer connections - send our state to newly connected peers.
+      // Sent even without votes, as it carries the battle's end time.
+      p2pService.onPeerConnected((peerId) => {
+        sendStateToPeer(peerId, getCurrentVotes());
       });
     });
-  }, [getCurrentVotes, sendStateToPeer, syncVotes]);
+  }, [
+    getCurrentVotes,
+    getBattleTiming,
+    sendStateToPeer,
+    syncVotes,
+    syncBattleTiming,
+    resetBattle,
+    startBattle,
+    inviteCode,
+    isTournamentRunning,
+  ]);
+
+  // Get vote counts for each Pokemon (zero until someone votes for it)
+  const getVoteCount = (pokemonName: string): number =>
+    state.results[pokemonName]?.count || 0;
 
-  // Get vote counts for each Pokemon (safe calculation with null checks)
-  const pokemon1Votes =
-    pokemon1 && pokemon2 ? state.results[pokemon1.name]?.count || 0 : 0;
-  const pokemon2Votes =
-    pokemon1 && pokemon2 ? state.results[pokemon2.name]?.count || 0 : 0;
+  // Every candidate ranked by votes, and the share each bar animates to
+  const ranking = useMemo(
+    () => rankCandidates(pokemon.map((candidate) => candidate.name), state.results),
+    [pokemon, state.results]
+  );
+  const targetPercentages = useMemo(
+    () =>
+      ranking.reduce<Record<string, number>>((targets, entry) => {
+        targets[entry.pokemonName] = Math.round(entry.percentage);
+        return targets;
+      }, {}),
+    [ranking]
+  );
 
   // Animation effect when votes change
   useEffect(() => {
-    if (
-      state.totalVotes > 0 &&
-      !animationInProgress.current &&
-      pokemon1 &&
-      pokemon2
-    ) {
+    if (state.totalVotes > 0 && !animationInProgress.current && isLoaded) {
       animationInProgress.current = true;
 
       // Start animation sequence
@@ -231,17 +412,7 @@ const BattleArena: React.FC = () => {
       const stepDuration = animationDuration / steps;
 
       // Reset animated values
-      setAnimatedPercentages({ pokemon1: 0, pokemon2: 0 });
-
-      // Calculate target percentage values
-      const targetPokemon1Percentage =
-        state.totalVotes > 0
-          ? Math.round((pokemon1Votes / state.totalVotes) * 100)
-          : 0;
-      const targetPokemon2Percentage =
-        state.totalVotes > 0
-          ? Math.round((pokemon2Votes / state.totalVotes) * 100)
-          : 0;
+      setAnimatedPercentages({});
 
       let currentStep = 0;
 
@@ -250,19 +421,19 @@ const BattleArena: React.FC = () => {
         const progress = currentStep / steps;
         const easeProgress = 1 - Math.pow(1 - progress, 3); // Ease-out cubic
 
-        setAnimatedPercentages({
-          pokemon1: Math.round(targetPokemon1Percentage * easeProgress),
-          pokemon2: Math.round(targetPokemon2Percentage * easeProgress),
+        const stepPercentages: Record<string, number> = {};
+        Object.keys(targetPercentages).forEach((name) => {
+          stepPercentages[name] = Math.round(
+            targetPercentages[name] * easeProgress
+          );
         });
+        setAnimatedPercentages(stepPercentages);
 
         if (currentStep < steps) {
           setTimeout(animateStep, stepDuration);
         } else {
           // Ensure final values are exact
-          setAnimatedPercentages({
-            pokemon1: targetPokemon1Percentage,
-            pokemon2: targetPokemon2Percentage,
-          });
+          setAnimatedPercentages(targetPercentages);
           animationInProgress.current = false;
         }
       };
@@ -270,61 +441,36 @@ const BattleArena: React.FC = () => {
       // Start animation after a short delay for vote button transition
       setTimeout(animateStep, 200);
     } else if (state.totalVotes === 0) {
-      setAnimatedPercentages({ pokemon1: 0, pokemon2: 0 });
+      setAnimatedPercentages({});
       animationInProgress.current = false;
     }
-  }, [state.totalVotes, pokemon1Votes, pokemon2Votes, pokemon1, pokemon2]);
-
-  // Handle voting
-  const handleVote = async (pokemonName: string) => {
-    // Check if this browser has already voted in this battle
-    if (browserVoteStatus.hasVoted) {
-      const battleId = generateBattleId(
-        battleParams.pokemon1Index,
-        battleParams.pokemon2Index
-      );
-      const previousVote = browserVoteStatus.pokemonName;
-      const capitalizedPokemonName = previousVote
-        ? previousVote.charAt(0).toUpperCase() + previousVote.slice(1)
-        : "Unknown Pokémon";
-
-      showToast(
-        `You have already voted for ${capitalizedPokemonName} in a different tab! Open an incognito window to vote again.`,
-        "warning",
-        6000
-      );
-
-      console.log(
-        `⚠️ Vote blocked: Browser already voted for ${previousVote} in ${battleId}`
-      );
-      return;
-    }
+  }, [state.totalVotes, targetPercentages, isLoaded]);
 
-    if (!hasThisPeerVoted && state.isActive) {
+  // Handle voting - one Pokemon, or a whole approval or ranked ballot
+  const handleVote = async (choices: string[]) => {
+    // A ballot this browser cast earlier, even in a tab that's gone, shows
+    // up as state.userVote - it's changed or withdrawn rather than recast
+    if (!state.userVote && state.isActive) {
       try {
-        // Record browser vote in localStorage
-        const battleId = generateBattleId(
-          battleParams.pokemon1Index,
-          battleParams.pokemon2Index
-        );
-        recordBrowserVote(battleId, pokemonName);
-
-        // Update browser vote status
-        setBrowserVoteStatus({ hasVoted: true, pokemonName });
+        // Cast (and sign) vote locally first
+        const vote = await castVote(choices);
+        if (!vote) {
+          // Voting closed (or this tab already voted) in the meantime
+          return;
+        }
 
-        // Cast vote locally first
-        castVote(pokemonName);
+        // Record browser vote in localStorage
+        recordBrowserVote(battleId, choices);
 
-        // Broadcast vote to peers
-        if (p2pStatus === "connected") {
-          try {
-            await broadcastVote(pokemonName, connectionState.peerId);
-          } catch (error) {
-            console.error("Failed to broadcast vote:", error);
-          }
+        // Broadcast the same vote to peers so every replica merges one entry.
+        // Offline votes wait in the outbox until a peer acknowledges them.
+        try {
+          await broadcastVote(vote);
+        } catch (error) {
+          console.error("Failed to broadcast vote:", error);
         }
 
-        setHasThisPeerVoted(true);
+        setBallotChoices([]);
       } catch (error) {
         console.error("Failed to process vote:", error);
         showToast("Failed to cast vote. Please try again.", "error", 4000);
@@ -332,19 +478,71 @@ const BattleArena: React.FC = () => {
     }
   };
 
+  // Switch this tab's vote to another Pokemon, or replace its ballot
+  const handleChangeVote = async (choices: string[]) => {
+    try {
+      const vote = await changeVote(choices);
+      if (!vote) {
+        return;
+      }
+
+      recordBrowserVote(battleId, choices);
+
+      try {
+        await broadcastVote(vote);
+      } catch (error) {
+        console.error("Failed to broadcast vote change:", error);
+      }
+    } catch (error) {
+      console.error("Failed to change vote:", error);
+      showToast("Failed to change your vote. Please try again.", "error", 4000);
+    }
+  };
+
+  // Withdraw this tab's vote so it no longer counts
+  const handleRetractVote = async () => {
+    try {
+      const tombstone = await retractVote();
+      if (!tombstone) {
+        return;
+      }
+
+      removeBrowserVote(battleId);
+
+      try {
+        await broadcastVote(tombstone);
+      } catch (error) {
+        console.error("Failed to broadcast vote withdrawal:", error);
+      }
+    } catch (error) {
+      console.error("Failed to withdraw vote:", error);
+      showToast("Failed to withdraw your vote. Please try again.", "error", 4000);
+    }
+  };
+
   // Handle new battle
   const handleNewBattle = async () => {
     try {
       console.log("🎲 Starting new random battle...");
 
+      // New Battle after a tournament (or mid-way through one) leaves it
+      if (bracket) {
+        leaveTournament();
+      }
+
       // Reset battle context first
       resetBattle();
 
-      // Reset local voting state
-      setHasThisPeerVoted(false);
+      // Everyone in the current room follows us to the new matchup (unless
+      // they're busy with a tournament)
+      shouldAnnounceBattle.current = !isTournamentRunning;
 
       // Start a new random battle (this will update URL and fetch new Pokemon)
-      await startRandomBattle();
+      await startRandomBattle(
+        candidateCount,
+        inviteCode,
+        candidateCount > 2 ? newBattleMethod : "plurality"
+      );
 
       // Note: The useEffect will handle P2P reinitialization when battleParams change
       console.log("✅ New battle started successfully");
@@ -353,6 +551,27 @@ const BattleArena: React.FC = () => {
     }
   };
 
+  // Start a tournament in this room - everyone here plays along, starting
+  // with the first match straight away
+  const handleStartTournament = async (
+    size: BracketSize,
+    seedIndexes?: number[]
+  ) => {
+    await startTournament(size, seedIndexes);
+  };
+
+  // Stop following the tournament and go back to standalone battles. The
+  // room isn't told, so everyone else carries on with the bracket.
+  const handleLeaveTournament = async () => {
+    try {
+      leaveTournament();
+      resetBattle();
+      await startRandomBattle(MIN_BATTLE_CANDIDATES, inviteCode);
+    } catch (error) {
+      console.error("❌ Failed to leave tournament:", error);
+    }
+  };
+
   // Error state
   if (error) {
     return (
@@ -392,7 +611,7 @@ const BattleArena: React.FC = () => {
   }
 
   // Loading state
-  if (isLoading || !pokemon1 || !pokemon2) {
+  if (isLoading || !isLoaded) {
     return (
       <div className="max-w-2xl mx-auto">
         <div className="bg-white rounded-xl shadow-lg p-8">
@@ -402,9 +621,105 @@ const BattleArena: React.FC = () => {
     );
   }
 
+  // Closed battles show their final results to everyone
+  const isCompleted = state.status === "completed";
+  // Voters see results from their ballot, whichever tab of this browser cast it
+  const showResults = !!state.userVote || isCompleted;
+
   // Determine winners (safe calculation after Pokemon are loaded)
-  const pokemon1IsWinner = pokemon1 ? state.winner === pokemon1.name : false;
-  const pokemon2IsWinner = pokemon2 ? state.winner === pokemon2.name : false;
+  const { outcome } = state;
+  const getDisplayName = (pokemonName: string): string =>
+    pokemon.find((candidate) => candidate.name === pokemonName)?.displayName ??
+    pokemonName;
+  const isTie = outcome.kind === "tie";
+  const isTiedPokemon = (name: string) =>
+    outcome.kind === "tie" && outcome.tiedPokemon.includes(name);
+  const wonInSuddenDeath =
+    outcome.kind === "winner" &&
+    state.closesAt !== undefined &&
+    state.endTime !== undefined &&
+    state.closesAt > state.endTime;
+  const tieBreakLabel =
+    outcome.kind !== "winner"
+      ? null
+      : wonInSuddenDeath
+      ? "in sudden death"
+      : outcome.decidedBy === "earliest-to-reach"
+      ? "on the tie-break - got there first"
+      : outcome.decidedBy === "base-stats"
+      ? "on the tie-break - higher base stats"
+      : null;
+
+  // Votes can be cast offline - they queue in the outbox until delivered
+  const isDiscovering = p2pStatus === "offline" || p2pStatus === "discovering";
+  const userVoteDelivery = state.userVote
+    ? voteDeliveryStatuses[state.userVote.id]
+    : undefined;
+
+  // Move this matchup to a new round in a private room (or back to a public
+  // one). The old room isn't told, so nobody outside the link follows.
+  const handleChangeRoomPrivacy = async (makePrivate: boolean) => {
+    try {
+      console.log(
+        makePrivate ? "🔒 Moving to a private room..." : "🌐 Moving to a public room..."
+      );
+      resetBattle();
+      await startBattle(
+        battleParams.pokemonIndexes,
+        undefined,
+        makePrivate ? generateInviteCode() : undefined,
+        battleParams.votingMethod
+      );
+    } catch (error) {
+      console.error("❌ Failed to change room:", error);
+      showToast("Failed to change room. Please try again.", "error", 4000);
+    }
+  };
+
+  // Approval and ranked battles collect a ballot on the cards, then submit it
+  const usesBallot = state.votingMethod !== "plurality";
+  const isFillingBallot = isEditingBallot && state.isActive;
+  const showCardResults = showResults && !isFillingBallot;
+  const userChoices = state.userVote ? getVoteChoices(state.userVote) : [];
+
+  // Add a Pokemon to the ballot, or take it off (later ranks move up)
+  const toggleBallotChoice = (pokemonName: string) => {
+    setBallotChoices((choices) =>
+      choices.includes(pokemonName)
+        ? choices.filter((name) => name !== pokemonName)
+        : [...choices, pokemonName]
+    );
+  };
+
+  const getBallotVoteLabel = (pokemonName: string, displayName: string): string => {
+    const position = ballotChoices.indexOf(pokemonName);
+    if (state.votingMethod === "approval") {
+      return position >= 0 ? `✓ Approved ${displayName}` : `Approve ${displayName}`;
+    }
+    return position >= 0
+      ? `#${position + 1} ${displayName} - tap to unrank`
+      : `Rank ${displayName} #${ballotChoices.length + 1}`;
+  };
+
+  const handleSubmitBallot = async () => {
+    if (isFillingBallot) {
+      await handleChangeVote(ballotChoices);
+      setIsEditingBallot(false);
+      setBallotChoices([]);
+    } else {
+      await handleVote(ballotChoices);
+    }
+  };
+
+  const handleEditBallot = () => {
+    setBallotChoices(userChoices);
+    setIsEditingBallot(true);
+  };
+
+  const handleCancelBallotEdit = () => {
+    setIsEditingBallot(false);
+    setBallotChoices([]);
+  };
 
   return (
     <ErrorBoundary>
@@ -414,55 +729,168 @@ const BattleArena: React.FC = () => {
           <ConnectionStatus
             status={p2pStatus}
             connectedPeersCount={connectedPeersCount}
+            incompatiblePeersCount={incompatiblePeersCount}
+            peerHealth={peerHealth}
             peerId={connectionState.peerId}
           />
         </div>
 
+        {/* Tournament bracket */}
+        {bracket && (
+          <BracketView
+            bracket={bracket}
+            currentMatchId={nextMatch?.id}
+            onLeave={handleLeaveTournament}
+          />
+        )}
+
         {/* VS Display */}
         <div className="text-center mb-8">
-          <div className="inline-flex items-center bg-gradient-to-r from-red-500 to-blue-500 text-white px-6 py-3 rounded-full text-xl font-bold shadow-lg">
-            <span>{pokemon1.displayName}</span>
-            <span>&nbsp;vs&nbsp;</span>
-            <span>{pokemon2.displayName}</span>
+          {bracket && tournamentMatch && (
+            <div className="text-sm font-medium text-indigo-600 mb-2">
+              🏆 {getRoundName(getBracketRounds(bracket)[tournamentMatch.round].length)}
+              {" · "}
+              Seed {tournamentMatch.competitors[0]?.seed} vs seed{" "}
+              {tournamentMatch.competitors[1]?.seed}
+            </div>
+          )}
+          <div className="inline-flex flex-wrap items-center justify-center bg-gradient-to-r from-red-500 to-blue-500 text-white px-6 py-3 rounded-full text-xl font-bold shadow-lg">
+            {pokemon.map((candidate, index) => (
+              <React.Fragment key={candidate.name}>
+                {index > 0 && <span>&nbsp;vs&nbsp;</span>}
+                <span>{candidate.displayName}</span>
+              </React.Fragment>
+            ))}
           </div>
+          {state.endTime !== undefined && (
+            <div className="mt-4">
+              <BattleCountdown
+                startTime={state.startTime}
+                endTime={state.endTime}
+                closesAt={state.closesAt ?? state.endTime}
+                status={state.status}
+              />
+            </div>
+          )}
         </div>
 
         {/* Pokemon Cards */}
-        <div className="grid md:grid-cols-2 gap-8 mb-8">
-          {/* Pokemon 1 */}
-          <div className="transform transition-all duration-300 hover:scale-105">
-            <PokemonCard
-              pokemon={pokemon1}
-              isWinner={pokemon1IsWinner}
-              voteCount={pokemon1Votes}
-              totalVotes={state.totalVotes}
-              onVote={() => handleVote(pokemon1.name)}
-              hasVoted={hasThisPeerVoted}
-              isConnecting={p2pStatus !== "connected"}
-              connectionStatus={getConnectionStatusText(p2pStatus)}
-            />
-          </div>
+        <div
+          className={`grid gap-8 mb-8 ${getGridColumnsClass(pokemon.length)}`}
+        >
+          {pokemon.map((candidate) => (
+            <div
+              key={candidate.name}
+              className="transform transition-all duration-300 hover:scale-105"
+            >
+              <PokemonCard
+                pokemon={candidate}
+                isWinner={state.winner === candidate.name}
+                isTied={isTiedPokemon(candidate.name)}
+                voteCount={getVoteCount(candidate.name)}
+                totalVotes={state.totalVotes}
+                votePercentage={state.results[candidate.name]?.percentage ?? 0}
+                onVote={() =>
+                  usesBallot
+                    ? toggleBallotChoice(candidate.name)
+                    : handleVote([candidate.name])
+                }
+                voteLabel={
+                  usesBallot
+                    ? getBallotVoteLabel(candidate.name, candidate.displayName)
+                    : undefined
+                }
+                isSelected={ballotChoices.includes(candidate.name)}
+                hasVoted={showCardResults}
+                isConnecting={isDiscovering}
+                connectionStatus={getConnectionStatusText(p2pStatus)}
+              />
+            </div>
+          ))}
+        </div>
 
-          {/* Pokemon 2 */}
-          <div className="transform transition-all duration-300 hover:scale-105">
-            <PokemonCard
-              pokemon={pokemon2}
-              isWinner={pokemon2IsWinner}
-              voteCount={pokemon2Votes}
-              totalVotes={state.totalVotes}
-              onVote={() => handleVote(pokemon2.name)}
-              hasVoted={hasThisPeerVoted}
-              isConnecting={p2pStatus !== "connected"}
-              connectionStatus={getConnectionStatusText(p2pStatus)}
-            />
+        {/* Ballot being filled in (approval and ranked battles) */}
+        {usesBallot && state.isActive && (!showResults || isFillingBallot) && (
+          <div className="flex flex-wrap justify-center items-center gap-3 mb-8">
+            <span className="text-sm text-gray-600">
+              {state.votingMethod === "approval"
+                ? `Approve as many as you like - ${ballotChoices.length} approved`
+                : ballotChoices.length > 0
+                ? `Your ranking: ${ballotChoices.map(getDisplayName).join(" > ")}`
+                : "Rank the Pokémon in order of preference"}
+            </span>
+            <button
+              onClick={handleSubmitBallot}
+              disabled={ballotChoices.length === 0 || isDiscovering}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              {isFillingBallot ? "Update ballot" : "Submit ballot"}
+            </button>
+            <button
+              onClick={() => setBallotChoices([])}
+              disabled={ballotChoices.length === 0}
+              className="text-gray-500 hover:text-gray-700 disabled:text-gray-300 text-sm underline"
+            >
+              Clear
+            </button>
+            {isFillingBallot && (
+              <button
+                onClick={handleCancelBallotEdit}
+                className="text-gray-500 hover:text-gray-700 text-sm underline"
+              >
+                Cancel
+              </button>
+            )}
           </div>
-        </div>
+        )}
 
         {/* New Battle Button */}
-        <div className="flex justify-center my-4">
+        <div className="flex justify-center items-center space-x-3 my-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Pokémon:</span>
+            <select
+              value={candidateCount}
+              onChange={(event) => setCandidateCount(Number(event.target.value))}
+              disabled={isLoading}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white disabled:bg-gray-100"
+            >
+              {Array.from(
+                { length: MAX_BATTLE_CANDIDATES - MIN_BATTLE_CANDIDATES + 1 },
+                (_, offset) => MIN_BATTLE_CANDIDATES + offset
+              ).map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+          {candidateCount > 2 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Voting:</span>
+              <select
+                value={newBattleMethod}
+                onChange={(event) =>
+                  setNewBattleMethod(event.target.value as VotingMethod)
+                }
+                disabled={isLoading}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white disabled:bg-gray-100"
+              >
+                {VOTING_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {VOTING_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
           <button
             onClick={handleNewBattle}
             disabled={isLoading}
+            title={
+              isTournamentRunning
+                ? "Leaves the tournament for a standalone battle"
+                : undefined
+            }
             className="bg-gradient-to-r from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 disabled:cursor-not-allowed flex items-center space-x-2"
           >
             <svg
@@ -482,29 +910,91 @@ const BattleArena: React.FC = () => {
           </button>
         </div>
 
-        {/* Battle Stats (when voting is complete) */}
-        {hasThisPeerVoted && (
+        <TournamentSetup
+          onStart={handleStartTournament}
+          disabled={isLoading || isTournamentRunning}
+        />
+
+        {/* Battle Stats (after voting, or once the battle has closed) */}
+        {showResults && (
           <div className="text-center mb-6">
-            <div className="inline-flex items-center space-x-6 bg-white rounded-lg shadow-sm px-6 py-3">
+            <div className="inline-flex flex-wrap items-center justify-center gap-x-6 gap-y-2 bg-white rounded-lg shadow-sm px-6 py-3">
               <span className="text-sm text-gray-600">
                 Total Votes:{" "}
                 <strong className="text-gray-900">{state.totalVotes}</strong>
               </span>
               {state.winner && (
                 <span className="text-yellow-600 font-medium text-sm">
-                  🏆{" "}
-                  {pokemon1?.name === state.winner
-                    ? pokemon1.displayName
-                    : pokemon2.displayName}{" "}
-                  is winning!
+                  🏆 {getDisplayName(state.winner)}{" "}
+                  {isCompleted ? "wins" : "is winning"}
+                  {tieBreakLabel ? ` ${tieBreakLabel}!` : "!"}
                 </span>
               )}
-              <span className="text-green-600 font-medium text-sm">
-                ✅ You voted for{" "}
-                {state.userVote?.pokemonName === pokemon1.name
-                  ? pokemon1.displayName
-                  : pokemon2.displayName}
-              </span>
+              {isTie && (
+                <span className="text-slate-600 font-medium text-sm">
+                  🤝 {isCompleted ? "It's a tie!" : "Tied right now"}
+                </span>
+              )}
+              {state.userVote && (
+                <span className="text-green-600 font-medium text-sm">
+                  {state.votingMethod === "approval"
+                    ? `✅ You approved ${userChoices.map(getDisplayName).join(", ")}`
+                    : state.votingMethod === "ranked"
+                    ? `✅ Your ranking: ${userChoices.map(getDisplayName).join(" > ")}`
+                    : `✅ You voted for ${getDisplayName(state.userVote.pokemonName)}`}
+                </span>
+              )}
+              {userVoteDelivery === "pending" && (
+                <span
+                  className="text-orange-600 text-xs"
+                  title="Your vote will be sent as soon as another player connects"
+                >
+                  📮 Pending delivery
+                </span>
+              )}
+              {userVoteDelivery === "delivered" && (
+                <span className="text-gray-500 text-xs">📬 Delivered</span>
+              )}
+              {state.isActive && state.userVote && usesBallot && !isFillingBallot && (
+                <>
+                  <button
+                    onClick={handleEditBallot}
+                    className="text-indigo-600 hover:text-indigo-800 text-xs font-medium underline"
+                  >
+                    Edit ballot
+                  </button>
+                  <button
+                    onClick={handleRetractVote}
+                    className="text-gray-500 hover:text-red-600 text-xs font-medium underline"
+                  >
+                    Withdraw vote
+                  </button>
+                </>
+              )}
+              {state.isActive && state.userVote && !usesBallot && (
+                <>
+                  {pokemon
+                    .filter(
+                      (candidate) =>
+                        candidate.name !== state.userVote?.pokemonName
+                    )
+                    .map((candidate) => (
+                      <button
+                        key={candidate.name}
+                        onClick={() => handleChangeVote([candidate.name])}
+                        className="text-indigo-600 hover:text-indigo-800 text-xs font-medium underline"
+                      >
+                        Switch to {candidate.displayName}
+                      </button>
+                    ))}
+                  <button
+                    onClick={handleRetractVote}
+                    className="text-gray-500 hover:text-red-600 text-xs font-medium underline"
+                  >
+                    Withdraw vote
+                  </button>
+                </>
+              )}
             </div>
           </div>
         )}
@@ -512,67 +1002,73 @@ const BattleArena: React.FC = () => {
         {/* Live Vote Tracker with Smooth Animations */}
         <div
           className={`transition-all duration-500 ${
-            hasThisPeerVoted
+            showResults
               ? "opacity-100 transform translate-y-0"
               : "opacity-0 transform translate-y-4 pointer-events-none h-0 overflow-hidden"
           }`}
         >
-          {hasThisPeerVoted && (
+          {showResults && (
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4 text-center">
                 Live Vote Tracker
               </h3>
+              {usesBallot && (
+                <p className="text-xs text-gray-500 text-center -mt-3 mb-4">
+                  {state.votingMethod === "approval"
+                    ? "Approval voting - each ballot counts for every Pokémon it approves"
+                    : "Ranked choice - instant-runoff, showing the final round"}
+                </p>
+              )}
 
-              <div className="relative">
-                {/* Progress bar container */}
-                <div className="h-8 bg-gray-200 rounded-full overflow-hidden relative">
-                  {/* Pokemon 1 progress (from left) with animation */}
-                  {pokemon1Votes > 0 && (
-                    <div
-                      className={`h-full bg-gradient-to-r from-green-400 to-green-600 transition-all duration-700 ease-out flex items-center justify-start px-3 transform animate-slide-in-left ${
-                        pokemon2Votes === 0
-                          ? "rounded-full"
-                          : "rounded-l-full"
-                      }`}
-                      style={{
-                        width: `${animatedPercentages.pokemon1}%`,
-                      }}
-                    >
-                      <span className="text-white text-sm font-medium animate-count-up">
-                        {pokemon1.displayName}: {pokemon1Votes}
-                      </span>
-                    </div>
-                  )}
-
-                  {/* Pokemon 2 progress (from right) with animation */}
-                  {pokemon2Votes > 0 && (
-                    <div
-                      className={`h-full bg-gradient-to-l from-blue-400 to-blue-600 transition-all duration-700 ease-out flex items-center justify-end px-3 absolute top-0 right-0 animate-slide-in-right ${
-                        pokemon1Votes === 0
-                          ? "rounded-full"
-                          : "rounded-r-full"
+              {/* Ranked results - one animated bar per Pokemon */}
+              <ol className="space-y-3">
+                {ranking.map((entry) => (
+                  <li
+                    key={entry.pokemonName}
+                    className="flex items-center space-x-3"
+                  >
+                    <span
+                      className={`w-8 text-right text-sm font-bold ${
+                        entry.rank === 1 && entry.count > 0
+                          ? "text-yellow-600"
+                          : "text-gray-400"
                       }`}
-                      style={{
-                        width: `${animatedPercentages.pokemon2}%`,
-                      }}
                     >
-                      <span className="text-white text-sm font-medium animate-count-up">
-                        {pokemon2.displayName}: {pokemon2Votes}
-                      </span>
+                      #{entry.rank}
+                    </span>
+                    <span className="w-28 truncate text-sm font-medium text-gray-800">
+                      {getDisplayName(entry.pokemonName)}
+                    </span>
+                    <div className="flex-1 h-6 bg-gray-200 rounded-full overflow-hidden">
+                      {entry.count > 0 && (
+                        <div
+                          className={`h-full rounded-full transition-all duration-700 ease-out animate-slide-in-left bg-gradient-to-r ${
+                            state.winner === entry.pokemonName
+                              ? "from-green-400 to-green-600"
+                              : "from-blue-400 to-blue-600"
+                          }`}
+                          style={{
+                            width: `${animatedPercentages[entry.pokemonName] ?? 0}%`,
+                          }}
+                        />
+                      )}
                     </div>
-                  )}
-                </div>
-              </div>
-
-              {/* Percentage display with count-up animation */}
-              <div className="flex justify-between mt-2 text-sm text-gray-600">
-                <span className="font-medium transition-all duration-300 transform hover:scale-110">
-                  {animatedPercentages.pokemon1}%
-                </span>
-                <span className="font-medium transition-all duration-300 transform hover:scale-110">
-                  {animatedPercentages.pokemon2}%
-                </span>
-              </div>
+                    <span className="w-20 text-right text-sm text-gray-600 animate-count-up">
+                      {entry.count} · {animatedPercentages[entry.pokemonName] ?? 0}%
+                    </span>
+                  </li>
+                ))}
+              </ol>
+
+              {state.votingMethod === "ranked" &&
+                state.runoffRounds &&
+                state.runoffRounds.length > 0 && (
+                  <RunoffRounds
+                    rounds={state.runoffRounds}
+                    getDisplayName={getDisplayName}
+                    winner={state.winner}
+                  />
+                )}
             </div>
           )}
         </div>
@@ -597,13 +1093,23 @@ const BattleArena: React.FC = () => {
             </div>
           )}
 
+          {/* Share link, QR code and room privacy */}
+          <div className="mt-6">
+            <SharePanel
+              battleParams={battleParams}
+              onMakePrivate={() => handleChangeRoomPrivacy(true)}
+              onMakePublic={() => handleChangeRoomPrivacy(false)}
+              onCopied={() => showToast("Battle link copied", "success", 2000)}
+              disabled={isLoading || isTournamentRunning}
+            />
+          </div>
+
           {/* Battle URL info */}
           <div className="mt-4 text-center">
             <div className="inline-flex items-center bg-gray-100 text-gray-600 px-3 py-1 rounded-full text-xs">
               <span className="mr-1">🔗</span>
               <span>
-                Battle: Pokemon #{battleParams.pokemon1Index} vs #
-                {battleParams.pokemon2Index}
+                Battle: Pokemon #{battleParams.pokemonIndexes.join(" vs #")}
               </span>
             </div>
           </div>
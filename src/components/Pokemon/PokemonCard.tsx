@@ -8,9 +8,17 @@ import PokemonStats from './PokemonStats';
 interface PokemonCardProps {
   pokemon: Pokemon;
   isWinner?: boolean;
+  // Shares the top vote count with another Pokemon and no tie-breaker settled it
+  isTied?: boolean;
   voteCount?: number;
   totalVotes?: number;
+  // Share of ballots shown on the card; voteCount / totalVotes by default
+  votePercentage?: number;
   onVote?: () => void;
+  // Vote button text, e.g. the rank an approval or ranked ballot would give
+  voteLabel?: string;
+  // On the ballot being filled in (approval and ranked battles)
+  isSelected?: boolean;
   hasVoted?: boolean;
   isConnecting?: boolean;
   connectionStatus?: string;
@@ -19,18 +27,24 @@ interface PokemonCardProps {
 const PokemonCard: React.FC<PokemonCardProps> = ({
   pokemon,
   isWinner = false,
+  isTied = false,
   voteCount = 0,
   totalVotes = 0,
+  votePercentage,
   onVote,
+  voteLabel,
+  isSelected = false,
   hasVoted = false,
   isConnecting = false,
   connectionStatus = 'Connecting...'
 }) => {
-  const percentage = totalVotes > 0 ? (voteCount / totalVotes) * 100 : 0;
+  const percentage = votePercentage ?? (totalVotes > 0 ? (voteCount / totalVotes) * 100 : 0);
 
   return (
     <div className={`relative bg-white rounded-xl shadow-lg overflow-hidden transition-all duration-300 hover:shadow-xl ${
       (hasVoted && isWinner) ? 'ring-4 ring-yellow-400 shadow-yellow-100' : ''
+    } ${
+      (hasVoted && isTied) ? 'ring-4 ring-slate-300' : ''
     }`}>
       {/* Winner Crown with Celebration Animation */}
       {(hasVoted && isWinner) && (
@@ -44,6 +58,16 @@ const PokemonCard: React.FC<PokemonCardProps> = ({
         </div>
       )}
 
+      {/* Tie Badge */}
+      {(hasVoted && isTied) && (
+        <div className="absolute top-2 right-2 z-10">
+          <div className="bg-gradient-to-r from-slate-200 to-slate-300 text-slate-800 px-2 py-1 rounded-full text-xs font-bold flex items-center animate-bounce-in shadow-lg">
+            <span className="mr-1">🤝</span>
+            <span>TIED</span>
+          </div>
+        </div>
+      )}
+
       {/* Pokemon Image */}
       <div className="relative h-48 bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
         <img
@@ -127,6 +151,8 @@ const PokemonCard: React.FC<PokemonCardProps> = ({
               className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-all duration-200 ${
                 isConnecting
                   ? 'bg-gray-400 cursor-not-allowed'
+                  : isSelected
+                  ? 'bg-green-600 hover:bg-green-700 hover:shadow-lg'
                   : 'bg-blue-600 hover:bg-blue-700 hover:shadow-lg transform hover:-translate-y-0.5'
               }`}
             >
@@ -157,7 +183,7 @@ const PokemonCard: React.FC<PokemonCardProps> = ({
                   <span className="animate-pulse">{connectionStatus}</span>
                 </div>
               ) : (
-                `Vote for ${pokemon.displayName}`
+                voteLabel ?? `Vote for ${pokemon.displayName}`
               )}
             </button>
           </div>
@@ -0,0 +1,114 @@
+// Tournament bracket - every round's matches, their results and the match being played
+
+import React, { useMemo } from 'react';
+import { Bracket, BracketCompetitor, BracketMatch } from '../../types/tournament';
+import { getBracketRounds, getChampion, getRoundName } from '../../utils/bracketHelpers';
+
+interface BracketViewProps {
+  bracket: Bracket;
+  // The match the room is voting on now, if the tournament is still running
+  currentMatchId?: string;
+  onLeave: () => void;
+}
+
+const CompetitorRow: React.FC<{
+  competitor: BracketCompetitor | null;
+  votes?: number;
+  isWinner: boolean;
+  isLoser: boolean;
+}> = ({ competitor, votes, isWinner, isLoser }) => (
+  <div
+    className={`flex items-center justify-between px-2 py-1 text-xs ${
+      isWinner ? 'font-semibold text-green-700' : isLoser ? 'text-gray-400' : 'text-gray-700'
+    }`}
+  >
+    <span className="truncate">
+      {competitor ? (
+        <>
+          <span className="text-gray-400 mr-1">{competitor.seed}</span>
+          {competitor.displayName}
+        </>
+      ) : (
+        <span className="italic text-gray-300">TBD</span>
+      )}
+    </span>
+    {votes !== undefined && <span className="ml-2">{votes}</span>}
+  </div>
+);
+
+const MatchBox: React.FC<{ match: BracketMatch; isCurrent: boolean }> = ({ match, isCurrent }) => {
+  const [top, bottom] = match.competitors;
+  const { result } = match;
+
+  return (
+    <div
+      className={`bg-white rounded-md border divide-y ${
+        isCurrent ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200'
+      }`}
+    >
+      {[top, bottom].map((competitor, position) => (
+        <CompetitorRow
+          key={position}
+          competitor={competitor}
+          votes={result?.votes[position]}
+          isWinner={!!result && result.winner === competitor?.pokemonIndex}
+          isLoser={!!result && result.winner !== competitor?.pokemonIndex}
+        />
+      ))}
+      {isCurrent && (
+        <div className="px-2 py-0.5 text-[10px] font-medium text-indigo-600 bg-indigo-50">
+          🗳️ Now voting
+        </div>
+      )}
+      {result?.decidedBy && (
+        <div className="px-2 py-0.5 text-[10px] text-gray-500">
+          {result.decidedBy === 'seed' ? 'No winner on votes - better seed advances' : 'Won on the tie-break'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BracketView: React.FC<BracketViewProps> = ({ bracket, currentMatchId, onLeave }) => {
+  const rounds = useMemo(() => getBracketRounds(bracket), [bracket]);
+  const champion = useMemo(() => getChampion(bracket), [bracket]);
+
+  return (
+    <div className="bg-gray-50 rounded-lg shadow-sm p-4 mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">
+          🏆 {bracket.seeds.length}-Pokémon Tournament
+        </h3>
+        <button
+          onClick={onLeave}
+          className="text-xs text-gray-500 hover:text-red-600 underline"
+        >
+          Leave tournament
+        </button>
+      </div>
+
+      {champion && (
+        <div className="mb-3 text-center text-yellow-700 font-semibold">
+          👑 {champion.displayName} wins the tournament!
+        </div>
+      )}
+
+      <div className="flex space-x-4 overflow-x-auto pb-2">
+        {rounds.map((matches, round) => (
+          <div key={round} className="flex-shrink-0 w-44">
+            <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2 text-center">
+              {getRoundName(matches.length)}
+            </div>
+            <div className="flex flex-col justify-around h-full space-y-2">
+              {matches.map(match => (
+                <MatchBox key={match.id} match={match} isCurrent={match.id === currentMatchId} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BracketView;
@@ -0,0 +1,125 @@
+// Tournament setup - bracket size and seeds, picked by the host or at random
+
+import React, { useState } from 'react';
+import { BracketSize } from '../../types/tournament';
+import { BRACKET_SIZES } from '../../utils/bracketHelpers';
+
+interface TournamentSetupProps {
+  // Seeds are Pokedex numbers, best first; undefined picks them at random
+  onStart: (size: BracketSize, seedIndexes?: number[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Parse a comma- or space-separated list of Pokedex numbers, or explain
+ * what is wrong with it
+ */
+const parseSeeds = (text: string, size: BracketSize): number[] | string => {
+  const seeds = text.split(/[\s,]+/).filter(Boolean).map(value => Number(value));
+
+  if (seeds.some(seed => !Number.isInteger(seed) || seed < 1 || seed > 151)) {
+    return 'Seeds must be Pokédex numbers from 1 to 151';
+  }
+  if (new Set(seeds).size !== seeds.length) {
+    return 'Each Pokémon can only be seeded once';
+  }
+  if (seeds.length !== size) {
+    return `Enter ${size} Pokédex numbers (${seeds.length} so far)`;
+  }
+  return seeds;
+};
+
+const TournamentSetup: React.FC<TournamentSetupProps> = ({ onStart, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [size, setSize] = useState<BracketSize>(8);
+  const [seedText, setSeedText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const handleStart = async () => {
+    const seeds = seedText.trim() ? parseSeeds(seedText, size) : undefined;
+    if (typeof seeds === 'string') {
+      setError(seeds);
+      return;
+    }
+
+    setError(null);
+    setIsStarting(true);
+    try {
+      await onStart(size, seeds);
+      setIsOpen(false);
+      setSeedText('');
+    } catch (startError) {
+      console.error('❌ Failed to start tournament:', startError);
+      setError('Failed to load the seeds. Please try again.');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="text-center mb-6">
+        <button
+          onClick={() => setIsOpen(true)}
+          disabled={disabled}
+          className="text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed underline"
+        >
+          🏆 Start a tournament
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-700">🏆 New tournament</span>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Seeds:</span>
+          <select
+            value={size}
+            onChange={event => setSize(Number(event.target.value) as BracketSize)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+          >
+            {BRACKET_SIZES.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <input
+        type="text"
+        value={seedText}
+        onChange={event => setSeedText(event.target.value)}
+        placeholder="Pokédex numbers, best seed first - leave empty for random"
+        className="w-full text-sm border border-gray-300 rounded px-2 py-1 mb-2"
+      />
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={() => setIsOpen(false)}
+          className="text-sm text-gray-500 hover:text-gray-700 underline"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleStart}
+          disabled={disabled || isStarting}
+          className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white text-sm font-medium py-1 px-3 rounded transition-colors"
+        >
+          {isStarting ? 'Loading seeds...' : 'Start tournament'}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Everyone in this room plays along. Each match is a timed battle and its winner advances automatically.
+      </p>
+    </div>
+  );
+};
+
+export default TournamentSetup;
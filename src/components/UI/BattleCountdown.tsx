@@ -0,0 +1,66 @@
+// Countdown to the end of a timed battle, shared by every peer in the room
+
+import React, { useEffect, useState } from 'react';
+import { roomClock } from '../../services/roomClock';
+import { BattleStatus } from '../../types/voting';
+import { calculateBattleProgress } from '../../utils/votingHelpers';
+
+interface BattleCountdownProps {
+  startTime: number;
+  endTime: number;
+  // Later than endTime while a tied battle is in sudden death
+  closesAt: number;
+  status: BattleStatus;
+}
+
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const BattleCountdown: React.FC<BattleCountdownProps> = ({ startTime, endTime, closesAt, status }) => {
+  const [now, setNow] = useState(() => roomClock.now());
+
+  useEffect(() => {
+    if (status !== 'active') return;
+
+    const interval = setInterval(() => setNow(roomClock.now()), 250);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  if (status === 'completed') {
+    return (
+      <div className="inline-flex items-center bg-gray-800 text-white px-4 py-2 rounded-full text-sm font-medium shadow">
+        🏁 Voting closed - final results
+      </div>
+    );
+  }
+
+  // Until the regular end the countdown runs to it, even if a tie would extend it
+  const isSuddenDeath = now >= endTime && closesAt > endTime;
+  const roundStart = isSuddenDeath ? endTime : startTime;
+  const deadline = isSuddenDeath ? closesAt : endTime;
+  const remaining = deadline - now;
+  const progress = calculateBattleProgress(roundStart, deadline - roundStart, now);
+  const isEnding = isSuddenDeath || remaining <= 10000;
+
+  return (
+    <div className="max-w-xs mx-auto">
+      <div className={`text-sm font-medium mb-1 ${isEnding ? 'text-red-600 animate-pulse' : 'text-gray-700'}`}>
+        {isSuddenDeath
+          ? `⚡ Sudden death! ${formatRemaining(remaining)} to break the tie`
+          : `⏱️ ${formatRemaining(remaining)} left to vote`}
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-200 ${isEnding ? 'bg-red-500' : 'bg-indigo-500'}`}
+          style={{ width: `${100 - progress}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BattleCountdown;
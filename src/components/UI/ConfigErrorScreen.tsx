@@ -0,0 +1,49 @@
+// Full-page error shown when the runtime configuration can't be used
+
+import React from 'react';
+import { RuntimeConfigError } from '../../config/runtimeConfig';
+
+interface ConfigErrorScreenProps {
+  error: Error;
+}
+
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ error }) => {
+  const problems = error instanceof RuntimeConfigError ? error.problems : [];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-lg w-full bg-white rounded-lg shadow-lg p-6">
+        <div className="w-16 h-16 mx-auto mb-4 bg-red-100 rounded-full flex items-center justify-center">
+          <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.966-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+          </svg>
+        </div>
+
+        <h2 className="text-xl font-semibold text-gray-900 mb-2 text-center">
+          The app is misconfigured
+        </h2>
+
+        <p className="text-gray-600 mb-4 text-center">
+          {error.message}. Fix <code className="bg-gray-100 px-1 rounded">config.json</code> on the server and reload the page.
+        </p>
+
+        {problems.length > 0 && (
+          <ul className="mb-6 text-sm text-red-700 bg-red-50 rounded p-3 space-y-1 list-disc list-inside">
+            {problems.map(problem => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={() => window.location.reload()}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigErrorScreen;
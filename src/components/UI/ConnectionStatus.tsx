@@ -1,11 +1,14 @@
 // Connection status component for P2P networking
 
 import React from 'react';
-import { P2PStatus } from '../../types/p2p';
+import { P2PStatus, PeerHealth, PeerQuality } from '../../types/p2p';
+import { getAverageLatency } from '../../utils/p2pHelpers';
 
 interface ConnectionStatusProps {
   status: P2PStatus;
   connectedPeersCount: number;
+  incompatiblePeersCount?: number;
+  peerHealth?: PeerHealth[];
   peerId?: string;
   className?: string;
 }
@@ -13,6 +16,8 @@ interface ConnectionStatusProps {
 const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
   status,
   connectedPeersCount,
+  incompatiblePeersCount = 0,
+  peerHealth = [],
   peerId,
   className = ''
 }) => {
@@ -61,7 +66,23 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
     }
   };
 
+  const qualityStyles: Record<PeerQuality, { label: string; color: string }> = {
+    good: { label: 'Good', color: 'text-green-700' },
+    fair: { label: 'Fair', color: 'text-yellow-700' },
+    poor: { label: 'Poor', color: 'text-red-700' },
+    stale: { label: 'Not responding', color: 'text-gray-500' },
+    unknown: { label: 'Measuring...', color: 'text-gray-500' }
+  };
+
+  // Overall quality reflects the worst-connected peer
+  const getOverallQuality = (): PeerQuality => {
+    const ranking: PeerQuality[] = ['poor', 'stale', 'fair', 'good', 'unknown'];
+    return ranking.find(quality => peerHealth.some(peer => peer.quality === quality)) || 'unknown';
+  };
+
   const config = getStatusConfig(status);
+  const averageLatency = getAverageLatency(peerHealth.map(peer => peer.latency));
+  const overallQuality = qualityStyles[getOverallQuality()];
 
   return (
     <div className={`inline-flex items-center px-3 py-2 rounded-lg border text-sm font-medium ${config.color} ${className}`}>
@@ -80,6 +101,47 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
       {status === 'connected' && connectedPeersCount > 0 && (
         <span className="text-xs opacity-75">• Real-time</span>
       )}
+
+      {/* Connection quality with per-peer breakdown */}
+      {status === 'connected' && peerHealth.length > 0 && (
+        <details className="ml-2 relative">
+          <summary className={`cursor-pointer text-xs ${overallQuality.color}`}>
+            {overallQuality.label}{averageLatency !== undefined && ` • ${averageLatency} ms`}
+          </summary>
+          <div className="absolute right-0 z-10 mt-1 p-2 bg-white text-gray-800 text-xs rounded border shadow-lg whitespace-nowrap">
+            <table>
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pr-3 font-medium">Peer</th>
+                  <th className="pr-3 font-medium">Latency</th>
+                  <th className="font-medium">Quality</th>
+                </tr>
+              </thead>
+              <tbody>
+                {peerHealth.map(peer => (
+                  <tr key={peer.peerId}>
+                    <td className="pr-3" title={peer.peerId}>{peer.displayName || 'Unknown trainer'}</td>
+                    <td className="pr-3">{peer.latency !== undefined ? `${peer.latency} ms` : '—'}</td>
+                    <td className={qualityStyles[peer.quality].color}>{qualityStyles[peer.quality].label}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+
+      {/* Peers on a build with an incompatible wire protocol */}
+      {incompatiblePeersCount > 0 && (
+        <span
+          className="ml-2 text-xs text-orange-700"
+          title="Ask them to refresh the page to get the latest version"
+        >
+          ⚠️ {incompatiblePeersCount === 1
+            ? 'A peer is running an incompatible version'
+            : `${incompatiblePeersCount} peers are running an incompatible version`}
+        </span>
+      )}
       
       {/* Peer ID display (for debugging) */}
       {peerId && process.env.NODE_ENV === 'development' && (
@@ -0,0 +1,71 @@
+// Instant-runoff elimination rounds of a ranked-choice battle
+
+import React from 'react';
+import { RunoffRound } from '../../types/voting';
+
+interface RunoffRoundsProps {
+  rounds: RunoffRound[];
+  getDisplayName: (pokemonName: string) => string;
+  winner?: string | null;
+}
+
+const RunoffRounds: React.FC<RunoffRoundsProps> = ({ rounds, getDisplayName, winner }) => {
+  return (
+    <div className="mt-6">
+      <h4 className="text-sm font-semibold text-gray-700 mb-2 text-center">
+        Elimination rounds
+      </h4>
+      <ol className="space-y-2">
+        {rounds.map((round, index) => {
+          // Most first-remaining preferences first, names breaking ties
+          const standings = Object.entries(round.counts)
+            .sort(([nameA, a], [nameB, b]) => b - a || nameA.localeCompare(nameB));
+          const isFinal = index === rounds.length - 1;
+
+          return (
+            <li key={index} className="bg-gray-50 rounded-lg px-4 py-2 text-sm">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-800">Round {index + 1}</span>
+                {round.exhausted > 0 && (
+                  <span
+                    className="text-xs text-gray-500"
+                    title="Ballots whose every choice has been eliminated"
+                  >
+                    {round.exhausted} exhausted
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {standings.map(([pokemonName, count]) => {
+                  const isEliminated = round.eliminated === pokemonName;
+                  const isRoundWinner = isFinal && winner === pokemonName;
+                  return (
+                    <span
+                      key={pokemonName}
+                      className={
+                        isEliminated
+                          ? 'text-red-500 line-through'
+                          : isRoundWinner
+                          ? 'text-green-700 font-semibold'
+                          : 'text-gray-700'
+                      }
+                    >
+                      {getDisplayName(pokemonName)}: {count}
+                    </span>
+                  );
+                })}
+              </div>
+              {round.eliminated && (
+                <div className="mt-1 text-xs text-red-600">
+                  ❌ {getDisplayName(round.eliminated)} is eliminated - its ballots pass to their next choice
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default RunoffRounds;
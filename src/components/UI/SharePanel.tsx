@@ -0,0 +1,101 @@
+// Share panel - the battle link and its QR code, and the switch to a private room
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { BattleParams, buildBattleUrl } from '../../utils/urlHelpers';
+
+interface SharePanelProps {
+  battleParams: BattleParams;
+  onMakePrivate: () => void;
+  onMakePublic: () => void;
+  onCopied?: () => void;
+  disabled?: boolean;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({
+  battleParams,
+  onMakePrivate,
+  onMakePublic,
+  onCopied,
+  disabled = false
+}) => {
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const shareUrl = buildBattleUrl(battleParams);
+  const isPrivate = battleParams.inviteCode !== undefined;
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    QRCode.toDataURL(shareUrl, { width: 160, margin: 1 })
+      .then(dataUrl => {
+        if (isCurrent) setQrCodeUrl(dataUrl);
+      })
+      .catch(error => {
+        console.error('❌ Failed to render QR code:', error);
+        if (isCurrent) setQrCodeUrl(null);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [shareUrl]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      onCopied?.();
+    } catch (error) {
+      console.error('❌ Failed to copy battle link:', error);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-700">
+          {isPrivate ? '🔒 Private room - only people with this link can join' : '🌐 Public room'}
+        </span>
+        <button
+          onClick={isPrivate ? onMakePublic : onMakePrivate}
+          disabled={disabled}
+          title="Starts a new round in a room of its own"
+          className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed underline"
+        >
+          {isPrivate ? 'Make public' : 'Make private'}
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        {qrCodeUrl && (
+          <img
+            src={qrCodeUrl}
+            alt="QR code for the battle link"
+            className="w-28 h-28 flex-shrink-0 rounded border border-gray-200"
+          />
+        )}
+        <div className="min-w-0 flex-1">
+          <input
+            type="text"
+            readOnly
+            value={shareUrl}
+            onFocus={event => event.target.select()}
+            className="w-full text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded px-2 py-1 mb-2"
+          />
+          <button
+            onClick={handleCopy}
+            className="text-xs bg-indigo-500 hover:bg-indigo-600 text-white font-medium py-1 px-3 rounded transition-colors"
+          >
+            📋 Copy link
+          </button>
+          {isPrivate && (
+            <div className="mt-2 text-xs text-gray-500">
+              Invite code: <span className="font-mono">{battleParams.inviteCode}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -1,5 +1,8 @@
 // Environment configuration with fallbacks for local and production deployment
 
+import { TransportKind } from '../types/p2p';
+import { TieBreakMode } from '../types/voting';
+
 export interface AppConfig {
   appName: string;
   version: string;
@@ -11,9 +14,51 @@ export interface AppConfig {
     host?: string;
     port?: number;
     path?: string;
+    key?: string;
+    secure?: boolean;
+    iceServers: RTCIceServer[];
+    // 'relay' forces all traffic through TURN, e.g. behind strict corporate firewalls
+    iceTransportPolicy: RTCIceTransportPolicy;
+  };
+  transport: {
+    kind: TransportKind;
+    relayUrl: string;
+  };
+  battle: {
+    // Voting closes this long after a battle starts; 0 keeps battles open
+    durationSeconds: number;
+    tieBreak: TieBreakMode;
+    // Length of each sudden-death round, when tieBreak is 'sudden-death'
+    suddenDeathSeconds: number;
+  };
+  tournament: {
+    // Length of every bracket match; matches are always timed
+    matchSeconds: number;
   };
 }
 
+// Public STUN/TURN servers used unless a deployment supplies its own
+const defaultIceServers: RTCIceServer[] = [
+  // Google STUN servers
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  // Alternative STUN servers
+  { urls: 'stun:global.stun.twilio.com:3478' },
+  { urls: 'stun:stun.cloudflare.com:3478' },
+  // Free TURN servers (for NAT traversal)
+  {
+    urls: 'turn:openrelay.metered.ca:80',
+    username: 'openrelayproject',
+    credential: 'openrelayproject'
+  },
+  {
+    urls: 'turn:openrelay.metered.ca:443',
+    username: 'openrelayproject',
+    credential: 'openrelayproject'
+  }
+];
+
 // Default configuration for local development
 const defaultConfig: AppConfig = {
   appName: 'Pokemon Battle Royale',
@@ -25,9 +70,90 @@ const defaultConfig: AppConfig = {
   peerjs: {
     // Use PeerJS cloud service by default (no host/port needed)
     // This works both locally and on Vercel
+    iceServers: defaultIceServers,
+    iceTransportPolicy: 'all',
+  },
+  transport: {
+    // PeerJS (WebRTC) by default; 'relay' routes votes through a WebSocket relay
+    kind: 'peerjs',
+    relayUrl: 'ws://localhost:9000/relay',
+  },
+  battle: {
+    durationSeconds: 300,
+    tieBreak: 'none',
+    suddenDeathSeconds: 30,
+  },
+  tournament: {
+    matchSeconds: 60,
   },
 };
 
+/**
+ * Parse REACT_APP_ICE_SERVERS - a JSON array of RTCIceServer objects
+ */
+const parseIceServers = (value: string | undefined): RTCIceServer[] | undefined => {
+  if (!value) return undefined;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed;
+  } catch (error) {
+    // Fall through to the warning below
+  }
+
+  console.warn('⚠️ REACT_APP_ICE_SERVERS must be a JSON array of RTCIceServer objects - using the default servers');
+  return undefined;
+};
+
+/**
+ * Build a TURN server entry from REACT_APP_TURN_* variables, if set
+ */
+const getTurnServer = (): RTCIceServer[] => {
+  const urls = (process.env.REACT_APP_TURN_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  if (urls.length === 0) return [];
+  return [{
+    urls,
+    username: process.env.REACT_APP_TURN_USERNAME,
+    credential: process.env.REACT_APP_TURN_CREDENTIAL,
+  }];
+};
+
+/**
+ * Parse a whole number of seconds such as REACT_APP_BATTLE_DURATION_SECONDS
+ */
+const parseSeconds = (name: string, value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isInteger(seconds) && seconds >= 0) return seconds;
+
+  console.warn(`⚠️ ${name} must be a whole number of seconds - using the default`);
+  return undefined;
+};
+
+const TIE_BREAK_MODES: TieBreakMode[] = ['none', 'earliest-to-reach', 'sudden-death', 'base-stats'];
+
+/**
+ * Parse REACT_APP_TIE_BREAK - one of TIE_BREAK_MODES
+ */
+const parseTieBreak = (value: string | undefined): TieBreakMode | undefined => {
+  if (!value) return undefined;
+  if ((TIE_BREAK_MODES as string[]).includes(value)) return value as TieBreakMode;
+
+  console.warn(`⚠️ REACT_APP_TIE_BREAK must be one of ${TIE_BREAK_MODES.join(', ')} - ties stay ties`);
+  return undefined;
+};
+
+const parseBoolean = (value: string | undefined): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
 // Get configuration from environment variables with fallbacks
 export const getAppConfig = (): AppConfig => {
   return {
@@ -43,6 +169,31 @@ export const getAppConfig = (): AppConfig => {
       port: process.env.REACT_APP_PEERJS_PORT ? 
             parseInt(process.env.REACT_APP_PEERJS_PORT, 10) : undefined,
       path: process.env.REACT_APP_PEERJS_PATH || undefined,
+      key: process.env.REACT_APP_PEERJS_KEY || undefined,
+      secure: parseBoolean(process.env.REACT_APP_PEERJS_SECURE),
+      iceServers: [
+        ...(parseIceServers(process.env.REACT_APP_ICE_SERVERS) || defaultConfig.peerjs.iceServers),
+        ...getTurnServer(),
+      ],
+      iceTransportPolicy: process.env.REACT_APP_ICE_TRANSPORT_POLICY === 'relay'
+        ? 'relay'
+        : defaultConfig.peerjs.iceTransportPolicy,
+    },
+    transport: {
+      kind: process.env.REACT_APP_TRANSPORT === 'relay' ? 'relay' : defaultConfig.transport.kind,
+      relayUrl: process.env.REACT_APP_RELAY_URL || defaultConfig.transport.relayUrl,
+    },
+    battle: {
+      durationSeconds: parseSeconds('REACT_APP_BATTLE_DURATION_SECONDS', process.env.REACT_APP_BATTLE_DURATION_SECONDS) ??
+        defaultConfig.battle.durationSeconds,
+      tieBreak: parseTieBreak(process.env.REACT_APP_TIE_BREAK) ?? defaultConfig.battle.tieBreak,
+      suddenDeathSeconds: parseSeconds('REACT_APP_SUDDEN_DEATH_SECONDS', process.env.REACT_APP_SUDDEN_DEATH_SECONDS) ??
+        defaultConfig.battle.suddenDeathSeconds,
+    },
+    tournament: {
+      // 0 would leave a match open forever, so it falls back to the default too
+      matchSeconds: parseSeconds('REACT_APP_TOURNAMENT_MATCH_SECONDS', process.env.REACT_APP_TOURNAMENT_MATCH_SECONDS) ||
+        defaultConfig.tournament.matchSeconds,
     },
   };
 };
@@ -50,10 +201,17 @@ export const getAppConfig = (): AppConfig => {
 // Export the configuration
 export const appConfig = getAppConfig();
 
-// Log configuration in development
-if (appConfig.environment === 'development') {
-  console.log('🔧 App Configuration:', {
-    ...appConfig,
-    // Don't log sensitive data (though we don't have any)
-  });
-}
+/**
+ * Copy of the config that is safe to log - TURN credentials are redacted
+ */
+export const getLoggableConfig = (config: AppConfig = appConfig): AppConfig => ({
+  ...config,
+  peerjs: {
+    ...config.peerjs,
+    iceServers: config.peerjs.iceServers.map(server =>
+      server.credential ? { ...server, credential: '***' } : server
+    ),
+  },
+});
+
+// Runtime overrides from config.json are applied by loadRuntimeConfig() in ./runtimeConfig
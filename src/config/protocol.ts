@@ -0,0 +1,81 @@
+// P2P wire protocol version and capabilities
+//
+// Bump PROTOCOL_VERSION whenever the message format changes. Peers exchange a
+// HELLO on every new channel and talk at the lower of their two versions, as
+// long as that is still at or above both sides' MIN_PROTOCOL_VERSION.
+
+import { P2PMessage } from '../types/p2p';
+
+// Version 1 is every build from before the HELLO handshake existed
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 13;
+// Builds before v13 accept ballots whose userId isn't bound to the signing key,
+// so a room mixing them would count different votes
+export const MIN_PROTOCOL_VERSION = 13;
+
+export type ProtocolCapability =
+  | 'roster'
+  | 'crdt-sync'
+  | 'signed-votes'
+  // Acknowledges votes with VOTE_ACK (v3)
+  | 'vote-ack'
+  // Acknowledges reliable messages with ACK and drops duplicates (v4)
+  | 'ack'
+  // Forwards votes and SYNC_RESPONSE to peers the origin can't reach (v5)
+  | 'gossip'
+  // Turns newcomers away with REDIRECT when at maxConnections (v6)
+  | 'redirect'
+  // Understands VOTE_CHANGE, VOTE_RETRACT and retracted votes in syncs (v7)
+  | 'vote-change'
+  // Pongs carry the responder's clock and syncs carry the battle's end time (v8)
+  | 'timed-battles'
+  // Rooms are per battle session and BATTLE_START names the session (v9)
+  | 'battle-sessions'
+  // Battles have 2-9 candidates, listed in BATTLE_START and syncs (v10)
+  | 'multi-candidate'
+  // Votes carry approval or ranked choices and BATTLE_START names the voting method (v11)
+  | 'voting-methods'
+  // Replicates tournament brackets with BRACKET_UPDATE and in syncs (v12)
+  | 'tournaments'
+  // Voter IDs are derived from the signing key; votes under any other ID are dropped (v13)
+  | 'key-bound-voters';
+
+export const PROTOCOL_CAPABILITIES: ProtocolCapability[] = [
+  'roster',
+  'crdt-sync',
+  'signed-votes',
+  'vote-ack',
+  'ack',
+  'gossip',
+  'redirect',
+  'vote-change',
+  'timed-battles',
+  'battle-sessions',
+  'multi-candidate',
+  'voting-methods',
+  'tournaments',
+  'key-bound-voters',
+];
+
+// Message types delivered at-least-once: acked by the receiver and resent
+// until then. Heartbeats, handshakes and farewells are fire-and-forget.
+export const RELIABLE_MESSAGE_TYPES: ReadonlyArray<P2PMessage['type']> = [
+  'VOTE',
+  'VOTE_CHANGE',
+  'VOTE_RETRACT',
+  'VOTE_ACK',
+  'SYNC_REQUEST',
+  'SYNC_RESPONSE',
+  'BATTLE_START',
+  'BRACKET_UPDATE',
+  'PEER_JOIN',
+];
+
+// Message types relayed peer-to-peer until their ttl runs out
+export const GOSSIP_MESSAGE_TYPES: ReadonlyArray<P2PMessage['type']> = [
+  'VOTE',
+  'VOTE_CHANGE',
+  'VOTE_RETRACT',
+  'SYNC_RESPONSE',
+  'BRACKET_UPDATE',
+];
@@ -0,0 +1,218 @@
+// Runtime configuration loaded from /config.json before the app renders
+//
+// One build can be promoted across environments by serving a different
+// config.json next to index.html. Its values are merged over the build-time
+// config (defaults plus REACT_APP_* variables). Unknown or mistyped keys are
+// rejected, so a typo can't silently fall back to a default.
+
+import { appConfig, AppConfig, getLoggableConfig } from './environment';
+
+type ConfigCheck = (value: unknown, path: string, problems: string[]) => void;
+
+// A config.json that passed validation: any subset of each section's settings
+type RuntimeConfig = {
+  [Key in keyof AppConfig]?: AppConfig[Key] extends string ? AppConfig[Key] : Partial<AppConfig[Key]>;
+};
+
+export class RuntimeConfigError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'RuntimeConfigError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const string: ConfigCheck = (value, path, problems) => {
+  if (typeof value !== 'string' || value.length === 0) problems.push(`${path} must be a non-empty string`);
+};
+
+const boolean: ConfigCheck = (value, path, problems) => {
+  if (typeof value !== 'boolean') problems.push(`${path} must be true or false`);
+};
+
+const port: ConfigCheck = (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+    problems.push(`${path} must be a port number between 1 and 65535`);
+  }
+};
+
+const seconds: ConfigCheck = (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    problems.push(`${path} must be a whole number of seconds (0 or more)`);
+  }
+};
+
+const positiveSeconds: ConfigCheck = (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    problems.push(`${path} must be a whole number of seconds (1 or more)`);
+  }
+};
+
+const oneOf = (allowed: string[]): ConfigCheck => (value, path, problems) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    problems.push(`${path} must be one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+  }
+};
+
+const url = (protocols: string[]): ConfigCheck => (value, path, problems) => {
+  try {
+    if (typeof value === 'string' && protocols.includes(new URL(value).protocol)) return;
+  } catch (error) {
+    // Reported below
+  }
+  problems.push(`${path} must be a URL starting with ${protocols.map(protocol => `${protocol}//`).join(' or ')}`);
+};
+
+const iceServers: ConfigCheck = (value, path, problems) => {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be an array of ICE servers`);
+    return;
+  }
+
+  value.forEach((server, index) => {
+    const serverPath = `${path}[${index}]`;
+    if (!isPlainObject(server)) {
+      problems.push(`${serverPath} must be an object`);
+      return;
+    }
+
+    const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+    if (urls.length === 0 || !urls.every(entry => typeof entry === 'string' && /^(stun|stuns|turn|turns):/.test(entry))) {
+      problems.push(`${serverPath}.urls must be stun:, stuns:, turn: or turns: URLs`);
+    }
+    if (server.username !== undefined) string(server.username, `${serverPath}.username`, problems);
+    if (server.credential !== undefined) string(server.credential, `${serverPath}.credential`, problems);
+  });
+};
+
+const section = (fields: Record<string, ConfigCheck>): ConfigCheck => (value, path, problems) => {
+  if (!isPlainObject(value)) {
+    problems.push(`${path || 'config.json'} must be an object`);
+    return;
+  }
+
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const check = fields[key];
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (!check) {
+      problems.push(`${fieldPath} is not a known setting`);
+    } else {
+      check(fieldValue, fieldPath, problems);
+    }
+  });
+};
+
+// Every setting config.json may override - all optional
+const runtimeConfigSchema = section({
+  appName: string,
+  version: string,
+  environment: oneOf(['development', 'production', 'test']),
+  pokemonApi: section({
+    baseUrl: url(['http:', 'https:']),
+  }),
+  peerjs: section({
+    host: string,
+    port,
+    path: string,
+    key: string,
+    secure: boolean,
+    iceServers,
+    iceTransportPolicy: oneOf(['all', 'relay']),
+  }),
+  transport: section({
+    kind: oneOf(['peerjs', 'relay']),
+    relayUrl: url(['ws:', 'wss:']),
+  }),
+  battle: section({
+    durationSeconds: seconds,
+    tieBreak: oneOf(['none', 'earliest-to-reach', 'sudden-death', 'base-stats']),
+    suddenDeathSeconds: seconds,
+  }),
+  tournament: section({
+    matchSeconds: positiveSeconds,
+  }),
+});
+
+/**
+ * List everything wrong with a parsed config.json (empty when valid)
+ */
+export const validateRuntimeConfig = (value: unknown): string[] => {
+  const problems: string[] = [];
+  runtimeConfigSchema(value, '', problems);
+  return problems;
+};
+
+/**
+ * Merge a validated config.json over appConfig, section by section and in
+ * place - modules hold a reference to appConfig. Arrays are replaced.
+ */
+const applyRuntimeConfig = (config: RuntimeConfig): void => {
+  const { pokemonApi, peerjs, transport, battle, tournament, ...settings } = config;
+  Object.assign(appConfig, settings);
+  Object.assign(appConfig.pokemonApi, pokemonApi);
+  Object.assign(appConfig.peerjs, peerjs);
+  Object.assign(appConfig.transport, transport);
+  Object.assign(appConfig.battle, battle);
+  Object.assign(appConfig.tournament, tournament);
+};
+
+/**
+ * Fetch and parse config.json. Resolves null when the deployment doesn't ship one.
+ */
+const fetchRuntimeConfig = async (): Promise<unknown | null> => {
+  let response: Response;
+  try {
+    response = await fetch(`${process.env.PUBLIC_URL || ''}/config.json`, { cache: 'no-store' });
+  } catch (error) {
+    console.warn('⚠️ Could not reach config.json - using build-time configuration:', error);
+    return null;
+  }
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new RuntimeConfigError(`config.json could not be loaded (HTTP ${response.status})`);
+  }
+
+  // The dev server and most SPA hosts answer unknown paths with index.html
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('text/html')) {
+    return null;
+  }
+
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new RuntimeConfigError('config.json is not valid JSON', [(error as Error).message]);
+  }
+};
+
+/**
+ * Load config.json and merge it over the build-time config. Rejects with a
+ * RuntimeConfigError when the file exists but is malformed.
+ */
+export const loadRuntimeConfig = async (): Promise<AppConfig> => {
+  const runtimeConfig = await fetchRuntimeConfig();
+
+  if (runtimeConfig !== null) {
+    const problems = validateRuntimeConfig(runtimeConfig);
+    if (problems.length > 0) {
+      throw new RuntimeConfigError('config.json contains invalid settings', problems);
+    }
+
+    applyRuntimeConfig(runtimeConfig as RuntimeConfig);
+    console.log('🔧 Applied runtime configuration from config.json');
+  }
+
+  // Log configuration in development
+  if (appConfig.environment === 'development') {
+    console.log('🔧 App Configuration:', getLoggableConfig());
+  }
+
+  return appConfig;
+};
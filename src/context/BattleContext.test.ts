@@ -0,0 +1,68 @@
+import { BattleState, Vote, VotingMethod } from '../types/voting';
+import { battleReducer, initialState } from './BattleContext';
+
+const BATTLE_ID = 'battle_1_vs_4_vs_7';
+
+const startBattle = (votingMethod: VotingMethod = 'plurality'): BattleState =>
+  battleReducer(initialState, {
+    type: 'START_BATTLE',
+    payload: {
+      pokemon: [{ name: 'bulbasaur' }, { name: 'charmander' }, { name: 'squirtle' }],
+      battleId: BATTLE_ID,
+      votingMethod,
+      startTime: 1000,
+      durationMs: 0
+    }
+  });
+
+let nextId = 0;
+const vote = (pokemonName: string, fields: Partial<Vote> = {}): Vote => ({
+  id: `vote_${nextId++}`,
+  userId: `user_${nextId}`,
+  pokemonName,
+  battleId: BATTLE_ID,
+  timestamp: 2000 + nextId,
+  ...fields
+});
+
+test('received votes for another battle or for Pokemon not in this one are dropped', () => {
+  const state = startBattle();
+  const valid = vote('bulbasaur');
+
+  const received = battleReducer(state, { type: 'RECEIVE_VOTE', payload: vote('charmander', { battleId: 'battle_1_vs_4' }) });
+  expect(received).toBe(state);
+
+  const synced = battleReducer(state, {
+    type: 'SYNC_VOTES',
+    payload: [valid, vote('pikachu'), vote('squirtle', { battleId: 'battle_25_vs_26' })]
+  });
+  expect(synced.votes).toEqual([valid]);
+  expect(synced.results).toMatchObject({ bulbasaur: { count: 1 } });
+  expect(synced.results.pikachu).toBeUndefined();
+});
+
+test('a withdrawal is accepted for this battle only', () => {
+  const ballot = vote('bulbasaur', { userId: 'user_ash' });
+  const state = battleReducer(startBattle(), { type: 'RECEIVE_VOTE', payload: ballot });
+
+  const foreign = vote('bulbasaur', { userId: 'user_ash', battleId: 'battle_1_vs_4', retracted: true });
+  expect(battleReducer(state, { type: 'RECEIVE_VOTE', payload: foreign })).toBe(state);
+
+  const withdrawn = battleReducer(state, { type: 'RECEIVE_VOTE', payload: vote('bulbasaur', { userId: 'user_ash', retracted: true }) });
+  expect(withdrawn.totalVotes).toBe(0);
+});
+
+test('received approval and ranked ballots with repeats or outsiders are dropped', () => {
+  const approval = startBattle('approval');
+  const padded = vote('bulbasaur', { choices: ['bulbasaur', 'bulbasaur', 'bulbasaur'] });
+  const outsider = vote('bulbasaur', { choices: ['bulbasaur', 'pikachu'] });
+  const approved = vote('bulbasaur', { choices: ['bulbasaur', 'squirtle'] });
+
+  const synced = battleReducer(approval, { type: 'SYNC_VOTES', payload: [padded, outsider, approved] });
+  expect(synced.votes).toEqual([approved]);
+  expect(synced.results).toMatchObject({ bulbasaur: { count: 1 }, squirtle: { count: 1 } });
+
+  const ranked = startBattle('ranked');
+  const repeated = vote('charmander', { choices: ['charmander', 'squirtle', 'charmander'] });
+  expect(battleReducer(ranked, { type: 'RECEIVE_VOTE', payload: repeated })).toBe(ranked);
+});
@@ -1,119 +1,201 @@
 // React Context for global battle state management
 
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { BattleState, Vote, VotingAction } from '../types/voting';
+import React, { createContext, useContext, useReducer, useEffect, useState, ReactNode } from 'react';
+import { BattleState, BattleTiming, Vote, VotingAction, VotingMethod } from '../types/voting';
 import { Pokemon } from '../types/pokemon';
 import { 
-  calculateVoteResults, 
   determineWinner, 
-  getUserSessionId,
+  generateVoteId,
+  getBallotFields,
+  getBaseStatTotal,
+  getOutcomeWinner,
+  getSuddenDeathCloseTime,
+  getVotesBeforeClose,
   hasUserVoted,
-  getUserVote
+  getUserVote,
+  isBattleActive,
+  isValidBallot,
+  isValidBallotVote,
+  MAX_SUDDEN_DEATH_ROUNDS,
+  tallyVotes,
+  getVoteChoices
 } from '../utils/votingHelpers';
+import { getActiveVotes, getNextBallotTimestamp, hasNewVotes, mergeVotes } from '../utils/voteCrdt';
+import { identityService } from '../services/identityService';
+import { roomClock } from '../services/roomClock';
+import { appConfig } from '../config/environment';
 
 // Battle Context Types
 interface BattleContextType {
   state: BattleState;
   dispatch: React.Dispatch<VotingAction>;
-  startNewBattle: (pokemon1: Pokemon, pokemon2: Pokemon) => void;
-  castVote: (pokemonName: string) => void;
+  // durationMs overrides the configured battle length, e.g. for tournament matches
+  startNewBattle: (pokemon: Pokemon[], battleId: string, votingMethod?: VotingMethod, durationMs?: number) => void;
+  // Choices in ballot order - a single Pokemon for plurality battles
+  castVote: (choices: string[]) => Promise<Vote | null>;
+  changeVote: (choices: string[]) => Promise<Vote | null>;
+  retractVote: () => Promise<Vote | null>;
   receiveVote: (vote: Vote) => void;
   resetBattle: () => void;
   getCurrentVotes: () => Vote[];
   syncVotes: (votes: Vote[]) => void;
+  getBattleTiming: () => BattleTiming | null;
+  syncBattleTiming: (timing: BattleTiming) => void;
 }
 
 // Initial state
-const initialState: BattleState = {
+export const initialState: BattleState = {
   battleId: '',
-  pokemon1Name: '',
-  pokemon2Name: '',
+  candidateNames: [],
   votes: [],
+  votingMethod: 'plurality',
   results: {},
   hasUserVoted: false,
   userVote: undefined,
+  outcome: { kind: 'no-votes', ranking: [] },
   winner: undefined,
   totalVotes: 0,
   isActive: false,
   startTime: 0,
+  status: 'idle',
+  tieBreak: 'none',
 };
 
-// Battle reducer
-const battleReducer = (state: BattleState, action: VotingAction): BattleState => {
+const hasSuddenDeath = (state: BattleState): boolean => {
+  return state.endTime !== undefined && state.tieBreak === 'sudden-death' && !!state.suddenDeathMs;
+};
+
+// The last moment a ballot could still count, allowing for every sudden-death round
+const getLatestCloseTime = (state: BattleState): number | undefined => {
+  return hasSuddenDeath(state)
+    ? (state.endTime as number) + MAX_SUDDEN_DEATH_ROUNDS * (state.suddenDeathMs as number)
+    : state.endTime;
+};
+
+// Recalculate results from the votes that count
+const withResults = (state: BattleState, votes: Vote[]): BattleState => {
+  // The replica keeps tombstones so withdrawals propagate; results ignore them
+  const activeVotes = getActiveVotes(votes);
+  const closesAt = hasSuddenDeath(state)
+    ? getSuddenDeathCloseTime(activeVotes, state.endTime as number, state.suddenDeathMs as number, state.votingMethod)
+    : state.endTime;
+  const countedVotes = getVotesBeforeClose(activeVotes, closesAt);
+  const { results, rounds } = tallyVotes(countedVotes, state.votingMethod);
+  const outcome = determineWinner(results, { mode: state.tieBreak, baseStatTotals: state.baseStatTotals });
+
+  return {
+    ...state,
+    votes,
+    results,
+    runoffRounds: rounds,
+    outcome,
+    winner: getOutcomeWinner(outcome),
+    closesAt,
+    totalVotes: countedVotes.length,
+  };
+};
+
+// Whether a vote belongs to this battle and holds a valid ballot for its method.
+// Tombstones carry just the withdrawn ballot's pokemonName, so only their battle is checked.
+const isVoteForBattle = (state: BattleState, vote: Vote): boolean => {
+  if (vote.battleId !== state.battleId) {
+    return false;
+  }
+  return !!vote.retracted || isValidBallotVote(vote, state.votingMethod, state.candidateNames);
+};
+
+// Merge votes into the replicated vote set and recalculate results
+const applyVotes = (state: BattleState, incomingVotes: Vote[]): BattleState => {
+  // Ballots stamped after the close are frozen out on every peer alike, and
+  // ballots for another battle or that don't suit its method are dropped
+  const acceptedVotes = getVotesBeforeClose(
+    incomingVotes.filter(vote => isVoteForBattle(state, vote)),
+    getLatestCloseTime(state)
+  );
+  if (!hasNewVotes(state.votes, acceptedVotes)) {
+    return state;
+  }
+
+  return withResults(state, mergeVotes(state.votes, acceptedVotes));
+};
+
+// Battle reducer - exported for tests that replay actions without React
+export const battleReducer = (state: BattleState, action: VotingAction): BattleState => {
   switch (action.type) {
     case 'START_BATTLE': {
-      const { pokemon1, pokemon2, battleId } = action.payload;
+      const { pokemon, battleId, startTime, durationMs, tieBreak, suddenDeathMs, votingMethod } = action.payload;
+      // Tests replay battles with names only, so stats may be missing
+      const candidates: Pokemon[] = pokemon;
+      const hasStats = candidates.every(candidate => candidate.stats);
       
       return {
         ...initialState,
         battleId,
-        pokemon1Name: pokemon1.name,
-        pokemon2Name: pokemon2.name,
+        candidateNames: candidates.map(candidate => candidate.name),
+        votingMethod: votingMethod || 'plurality',
         isActive: true,
-        startTime: Date.now(),
+        status: 'active',
+        startTime,
+        ...(durationMs > 0 && { durationMs, endTime: startTime + durationMs, closesAt: startTime + durationMs }),
+        tieBreak: tieBreak || 'none',
+        suddenDeathMs,
+        ...(hasStats && {
+          baseStatTotals: candidates.reduce<Record<string, number>>((totals, candidate) => {
+            totals[candidate.name] = getBaseStatTotal(candidate);
+            return totals;
+          }, {}),
+        }),
       };
     }
 
     case 'CAST_VOTE': {
-      const { pokemonName } = action.payload;
-      const userId = getUserSessionId();
+      const newVote = action.payload as Vote;
       
-      // Check if user already voted
-      if (hasUserVoted(state.votes, userId, state.battleId)) {
+      // Check if user already voted or voting has closed
+      if (!isBattleActive(state, newVote.timestamp) || hasUserVoted(state.votes, newVote.userId, state.battleId)) {
         return state;
       }
 
-      const newVote: Vote = {
-        id: `vote_${Date.now()}_${Math.random().toString(36).substring(2)}`,
-        userId,
-        pokemonName,
-        battleId: state.battleId,
-        timestamp: Date.now(),
-      };
-
-      const updatedVotes = [...state.votes, newVote];
-      const results = calculateVoteResults(updatedVotes);
-      const winner = determineWinner(results);
-
       return {
-        ...state,
-        votes: updatedVotes,
-        results,
-        winner,
-        totalVotes: updatedVotes.length,
+        ...applyVotes(state, [newVote]),
         hasUserVoted: true,
         userVote: newVote,
       };
     }
 
-    case 'RECEIVE_VOTE': {
-      const vote = action.payload as Vote;
-      const userId = getUserSessionId();
-      
-      // Don't add our own votes twice
-      if (vote.userId === userId) {
+    case 'CHANGE_VOTE': {
+      const newVote = action.payload as Vote;
+
+      // Only an existing vote can be changed, and only while voting is open
+      if (!isBattleActive(state, newVote.timestamp) || !hasUserVoted(state.votes, newVote.userId, state.battleId)) {
         return state;
       }
 
-      // Check if this vote already exists
-      const existingVote = state.votes.find(v => v.id === vote.id);
-      if (existingVote) {
+      return {
+        ...applyVotes(state, [newVote]),
+        hasUserVoted: true,
+        userVote: newVote,
+      };
+    }
+
+    case 'RETRACT_VOTE': {
+      const tombstone = action.payload as Vote;
+      if (!isBattleActive(state, tombstone.timestamp)) {
         return state;
       }
 
-      const updatedVotes = [...state.votes, vote];
-      const results = calculateVoteResults(updatedVotes);
-      const winner = determineWinner(results);
-
       return {
-        ...state,
-        votes: updatedVotes,
-        results,
-        winner,
-        totalVotes: updatedVotes.length,
+        ...applyVotes(state, [tombstone]),
+        hasUserVoted: false,
+        userVote: undefined,
       };
     }
 
+    case 'RECEIVE_VOTE': {
+      // Own votes echoed back by peers merge as no-ops
+      return applyVotes(state, [action.payload as Vote]);
+    }
+
     case 'RESET_BATTLE': {
       return {
         ...initialState,
@@ -122,29 +204,51 @@ const battleReducer = (state: BattleState, action: VotingAction): BattleState =>
 
     case 'SYNC_VOTES': {
       const incomingVotes = action.payload as Vote[];
+      const nextState = applyVotes(state, incomingVotes);
       
-      // Merge incoming votes with existing votes, avoiding duplicates
-      const existingVoteIds = new Set(state.votes.map(v => v.id));
-      const newVotes = incomingVotes.filter(vote => !existingVoteIds.has(vote.id));
-      const allVotes = [...state.votes, ...newVotes];
-      
-      // Recalculate results
-      const results = calculateVoteResults(allVotes);
-      const winner = determineWinner(results);
-      
-      console.log(`🔄 Synced ${newVotes.length} new votes (${allVotes.length} total)`);
+      console.log(`🔄 Merged ${incomingVotes.length} synced votes (${nextState.votes.length} total)`);
       
+      return nextState;
+    }
+
+    case 'SYNC_BATTLE_TIMING': {
+      const timing = action.payload as BattleTiming;
+      const endsSooner = (timing.endTime ?? Infinity) < (state.endTime ?? Infinity);
+
+      // Peers that opened the battle separately all adopt the earliest start,
+      // so they count down to the same end time
+      if (
+        state.status === 'idle' ||
+        timing.battleId !== state.battleId ||
+        timing.startTime > state.startTime ||
+        (timing.startTime === state.startTime && !endsSooner)
+      ) {
+        return state;
+      }
+
+      return withResults({
+        ...state,
+        startTime: timing.startTime,
+        endTime: timing.endTime,
+        durationMs: timing.endTime === undefined ? undefined : timing.endTime - timing.startTime,
+      }, state.votes);
+    }
+
+    case 'END_BATTLE': {
+      if (state.status !== 'active') {
+        return state;
+      }
+
+      console.log(`🏁 Voting closed for ${state.battleId} with ${state.totalVotes} votes`);
       return {
         ...state,
-        votes: allVotes,
-        results,
-        winner,
-        totalVotes: allVotes.length,
+        isActive: false,
+        status: 'completed',
       };
     }
 
     case 'SET_USER_VOTE_STATUS': {
-      const userId = getUserSessionId();
+      const userId = action.payload as string;
       const userHasVoted = hasUserVoted(state.votes, userId, state.battleId);
       const userVote = getUserVote(state.votes, userId, state.battleId);
 
@@ -170,22 +274,114 @@ interface BattleProviderProps {
 
 export const BattleProvider: React.FC<BattleProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(battleReducer, initialState);
+  // This browser's voter ID, derived from its signing key
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    identityService.getIdentity()
+      .then(identity => setUserId(identity.userId))
+      .catch(error => console.error('❌ Failed to load signing identity:', error));
+  }, []);
 
   // Action creators
-  const startNewBattle = (pokemon1: Pokemon, pokemon2: Pokemon) => {
-    // TODO: Generate unique battle ID
-    const battleId = "randomBattleId";
+  const startNewBattle = (
+    pokemon: Pokemon[],
+    battleId: string,
+    votingMethod: VotingMethod = 'plurality',
+    durationMs: number = appConfig.battle.durationSeconds * 1000
+  ) => {
     dispatch({
       type: 'START_BATTLE',
-      payload: { pokemon1, pokemon2, battleId },
+      payload: {
+        pokemon,
+        battleId,
+        votingMethod,
+        startTime: roomClock.now(),
+        durationMs,
+        tieBreak: appConfig.battle.tieBreak,
+        suddenDeathMs: appConfig.battle.suddenDeathSeconds * 1000,
+      },
     });
   };
 
-  const castVote = (pokemonName: string) => {
+  const castVote = async (choices: string[]): Promise<Vote | null> => {
+    const { userId } = await identityService.getIdentity();
+    const now = roomClock.now();
+    if (
+      !isBattleActive(state, now) ||
+      hasUserVoted(state.votes, userId, state.battleId) ||
+      !isValidBallot(state.votingMethod, choices, state.candidateNames)
+    ) {
+      return null;
+    }
+
+    // Sign before storing so the copy we later sync to peers is verifiable.
+    // Stamped in room time; it must also beat any earlier withdrawn vote of ours.
+    const vote = await identityService.signVote({
+      id: generateVoteId(),
+      ...getBallotFields(state.votingMethod, choices),
+      battleId: state.battleId,
+      timestamp: getNextBallotTimestamp(state.votes, userId, state.battleId, now),
+    });
+
     dispatch({
       type: 'CAST_VOTE',
-      payload: { pokemonName },
+      payload: vote,
     });
+    return vote;
+  };
+
+  const changeVote = async (choices: string[]): Promise<Vote | null> => {
+    const { userId } = await identityService.getIdentity();
+    const currentVote = getUserVote(state.votes, userId, state.battleId);
+    const now = roomClock.now();
+    if (
+      !isBattleActive(state, now) ||
+      !currentVote ||
+      !isValidBallot(state.votingMethod, choices, state.candidateNames) ||
+      getVoteChoices(currentVote).join(',') === choices.join(',')
+    ) {
+      return null;
+    }
+
+    const vote = await identityService.signVote({
+      id: generateVoteId(),
+      ...getBallotFields(state.votingMethod, choices),
+      battleId: state.battleId,
+      timestamp: getNextBallotTimestamp(state.votes, userId, state.battleId, now),
+      supersedes: currentVote.id,
+    });
+
+    dispatch({
+      type: 'CHANGE_VOTE',
+      payload: vote,
+    });
+    return vote;
+  };
+
+  const retractVote = async (): Promise<Vote | null> => {
+    const { userId } = await identityService.getIdentity();
+    const currentVote = getUserVote(state.votes, userId, state.battleId);
+    const now = roomClock.now();
+    if (!isBattleActive(state, now) || !currentVote) {
+      return null;
+    }
+
+    // A signed tombstone, so nobody else can withdraw our vote
+    const tombstone = await identityService.signVote({
+      id: generateVoteId(),
+      pokemonName: currentVote.pokemonName,
+      battleId: state.battleId,
+      timestamp: getNextBallotTimestamp(state.votes, userId, state.battleId, now),
+      supersedes: currentVote.id,
+      retracted: true,
+    });
+
+    dispatch({
+      type: 'RETRACT_VOTE',
+      payload: tombstone,
+    });
+    return tombstone;
   };
 
   const receiveVote = (vote: Vote) => {
@@ -210,22 +406,68 @@ export const BattleProvider: React.FC<BattleProviderProps> = ({ children }) => {
     });
   };
 
+  const getBattleTiming = (): BattleTiming | null => {
+    if (state.status === 'idle') {
+      return null;
+    }
+
+    return {
+      battleId: state.battleId,
+      candidateNames: state.candidateNames,
+      startTime: state.startTime,
+      ...(state.endTime !== undefined && { endTime: state.endTime }),
+    };
+  };
+
+  const syncBattleTiming = (timing: BattleTiming) => {
+    dispatch({
+      type: 'SYNC_BATTLE_TIMING',
+      payload: timing,
+    });
+  };
+
+  // Close voting once the room clock reaches the close time. The clock offset
+  // keeps adjusting as samples arrive, so re-check instead of trusting one timer.
+  useEffect(() => {
+    if (!state.isActive || state.closesAt === undefined) {
+      return;
+    }
+
+    const closesAt = state.closesAt;
+    let timeout: NodeJS.Timeout;
+    const checkClose = () => {
+      const remaining = closesAt - roomClock.now();
+      if (remaining <= 0) {
+        dispatch({ type: 'END_BATTLE' });
+        return;
+      }
+      timeout = setTimeout(checkClose, Math.min(remaining, 1000));
+    };
+
+    checkClose();
+    return () => clearTimeout(timeout);
+  }, [state.isActive, state.closesAt]);
+
   // Update user vote status when votes change
   useEffect(() => {
-    if (state.battleId) {
-      dispatch({ type: 'SET_USER_VOTE_STATUS' });
+    if (state.battleId && userId) {
+      dispatch({ type: 'SET_USER_VOTE_STATUS', payload: userId });
     }
-  }, [state.votes, state.battleId]);
+  }, [state.votes, state.battleId, userId]);
 
   const contextValue: BattleContextType = {
     state,
     dispatch,
     startNewBattle,
     castVote,
+    changeVote,
+    retractVote,
     receiveVote,
     resetBattle,
     getCurrentVotes,
     syncVotes,
+    getBattleTiming,
+    syncBattleTiming,
   };
 
   return (
@@ -2,28 +2,40 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Pokemon } from '../types/pokemon';
+import { VotingMethod } from '../types/voting';
 import { pokemonApi } from '../services/pokemonApi';
-import { getCurrentBattleParams, getDefaultBattleParams, updateBattleUrl, BattleParams } from '../utils/urlHelpers';
+import {
+  getCurrentBattleParams,
+  getDefaultBattleParams,
+  isSameBattle,
+  updateBattleUrl,
+  BattleParams
+} from '../utils/urlHelpers';
+import { generateBattleSessionId } from '../utils/votingHelpers';
 
 interface UseBattleDataState {
-  pokemon1: Pokemon | null;
-  pokemon2: Pokemon | null;
+  // The battle's candidates in display order, empty until loaded
+  pokemon: Pokemon[];
   isLoading: boolean;
   error: string | null;
   battleParams: BattleParams;
 }
 
 interface UseBattleDataReturn extends UseBattleDataState {
-  startRandomBattle: () => Promise<void>;
-  startBattle: (pokemon1Index: number, pokemon2Index: number) => Promise<void>;
+  startRandomBattle: (candidateCount?: number, inviteCode?: string, votingMethod?: VotingMethod) => Promise<void>;
+  startBattle: (
+    pokemonIndexes: number[],
+    sessionId?: string,
+    inviteCode?: string,
+    votingMethod?: VotingMethod
+  ) => Promise<void>;
   refetch: () => Promise<void>;
   clearError: () => void;
 }
 
 export const useBattleData = (): UseBattleDataReturn => {
   const [state, setState] = useState<UseBattleDataState>({
-    pokemon1: null,
-    pokemon2: null,
+    pokemon: [],
     isLoading: true,
     error: null,
     battleParams: getDefaultBattleParams(),
@@ -34,59 +46,71 @@ export const useBattleData = (): UseBattleDataReturn => {
     setState(prev => ({ ...prev, isLoading: true, error: null, battleParams }));
 
     try {
-      const { pokemon1, pokemon2 } = await pokemonApi.fetchBattlePokemon(
-        battleParams.pokemon1Index,
-        battleParams.pokemon2Index
-      );
+      const pokemon = await pokemonApi.fetchBattlePokemon(battleParams.pokemonIndexes);
 
       setState(prev => ({
         ...prev,
-        pokemon1,
-        pokemon2,
+        pokemon,
         isLoading: false,
         error: null,
       }));
     } catch (error) {
       setState(prev => ({
         ...prev,
-        pokemon1: null,
-        pokemon2: null,
+        pokemon: [],
         isLoading: false,
         error: error instanceof Error ? error.message : 'Failed to fetch Pokemon',
       }));
     }
   }, []);
 
-  // Start a new battle with specific Pokemon indexes
-  const startBattle = useCallback(async (pokemon1Index: number, pokemon2Index: number) => {
-    const battleParams: BattleParams = { pokemon1Index, pokemon2Index };
+  // Start a battle with specific Pokemon indexes - a new round unless a session is given,
+  // in a private room when an invite code is given
+  const startBattle = useCallback(async (
+    pokemonIndexes: number[],
+    sessionId: string = generateBattleSessionId(),
+    inviteCode?: string,
+    votingMethod: VotingMethod = 'plurality'
+  ) => {
+    const battleParams: BattleParams = {
+      pokemonIndexes,
+      sessionId,
+      ...(inviteCode && { inviteCode }),
+      ...(votingMethod !== 'plurality' && { votingMethod }),
+    };
     
     // Update URL with new parameters
-    updateBattleUrl(pokemon1Index, pokemon2Index);
+    updateBattleUrl(battleParams);
     
     // Fetch the Pokemon
     await fetchBattlePokemon(battleParams);
   }, [fetchBattlePokemon]);
 
-  // Start a random battle
-  const startRandomBattle = useCallback(async () => {
+  // Start a random battle with this many candidates, staying in the private
+  // room when given its invite code
+  const startRandomBattle = useCallback(async (
+    candidateCount: number = 2,
+    inviteCode?: string,
+    votingMethod: VotingMethod = 'plurality'
+  ) => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const { pokemon1, pokemon2 } = await pokemonApi.fetchRandomBattlePokemon();
-      
-      // Update URL with the random Pokemon indexes
-      updateBattleUrl(pokemon1.id, pokemon2.id);
+      const pokemon = await pokemonApi.fetchRandomBattlePokemon(candidateCount);
       
       const battleParams: BattleParams = {
-        pokemon1Index: pokemon1.id,
-        pokemon2Index: pokemon2.id,
+        pokemonIndexes: pokemon.map(candidate => candidate.id),
+        sessionId: generateBattleSessionId(),
+        ...(inviteCode && { inviteCode }),
+        ...(votingMethod !== 'plurality' && { votingMethod }),
       };
 
+      // Update URL with the random Pokemon indexes and the new round
+      updateBattleUrl(battleParams);
+
       setState(prev => ({
         ...prev,
-        pokemon1,
-        pokemon2,
+        pokemon,
         isLoading: false,
         error: null,
         battleParams,
@@ -94,8 +118,7 @@ export const useBattleData = (): UseBattleDataReturn => {
     } catch (error) {
       setState(prev => ({
         ...prev,
-        pokemon1: null,
-        pokemon2: null,
+        pokemon: [],
         isLoading: false,
         error: error instanceof Error ? error.message : 'Failed to fetch random Pokemon',
       }));
@@ -117,10 +140,8 @@ export const useBattleData = (): UseBattleDataReturn => {
     const urlParams = getCurrentBattleParams();
     const battleParams = urlParams || getDefaultBattleParams();
     
-    // If we don't have URL params but we should, update the URL
-    if (!urlParams) {
-      updateBattleUrl(battleParams.pokemon1Index, battleParams.pokemon2Index);
-    }
+    // Fill in missing params (or a new session) so the link can be shared
+    updateBattleUrl(battleParams, true);
     
     fetchBattlePokemon(battleParams);
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -132,11 +153,8 @@ export const useBattleData = (): UseBattleDataReturn => {
       const urlParams = getCurrentBattleParams();
       const battleParams = urlParams || getDefaultBattleParams();
       
-      // Only refetch if the params actually changed
-      if (
-        battleParams.pokemon1Index !== state.battleParams.pokemon1Index ||
-        battleParams.pokemon2Index !== state.battleParams.pokemon2Index
-      ) {
+      // Only refetch if the params actually changed - another round counts
+      if (!isSameBattle(battleParams, state.battleParams)) {
         fetchBattlePokemon(battleParams);
       }
     };
@@ -2,20 +2,27 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { p2pService } from '../services/p2pService';
-import { P2PConnectionState, P2PStatus } from '../types/p2p';
+import { P2PConnectionState, P2PStatus, PeerHealth, VoteDeliveryStatus } from '../types/p2p';
+import { Vote, VotingMethod } from '../types/voting';
+import { voteFromMessagePayload } from '../utils/p2pHelpers';
 import { useBattleContext } from '../context/BattleContext';
 
 interface UseP2PReturn {
   connectionState: P2PConnectionState;
   connectedPeersCount: number;
+  incompatiblePeersCount: number;
+  peerHealth: PeerHealth[];
+  voteDeliveryStatuses: Record<string, VoteDeliveryStatus>;
   status: P2PStatus;
   isConnected: boolean;
-  initialize: (pokemon1Index: number, pokemon2Index: number) => Promise<void>;
-  reinitialize: (pokemon1Index: number, pokemon2Index: number) => Promise<void>;
-  broadcastVote: (pokemonName: string, userId: string) => Promise<void>;
+  lastError: string | null;
+  initialize: (pokemonIndexes: number[], sessionId: string, inviteCode?: string, votingMethod?: VotingMethod) => Promise<void>;
+  reinitialize: (pokemonIndexes: number[], sessionId: string, inviteCode?: string, votingMethod?: VotingMethod) => Promise<void>;
+  broadcastVote: (vote: Vote) => Promise<void>;
+  announceBattleStart: (pokemonIndexes: number[], sessionId: string, votingMethod?: VotingMethod) => Promise<void>;
   disconnect: () => void;
   requestSync: () => Promise<void>;
-  sendStateToPeer: (peerId: string, votes: any[]) => Promise<void>;
+  sendStateToPeer: (peerId: string, votes: Vote[]) => Promise<void>;
 }
 
 export const useP2P = (): UseP2PReturn => {
@@ -23,6 +30,11 @@ export const useP2P = (): UseP2PReturn => {
     p2pService.getConnectionState()
   );
   const [status, setStatus] = useState<P2PStatus>('offline');
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [peerHealth, setPeerHealth] = useState<PeerHealth[]>([]);
+  const [voteDeliveryStatuses, setVoteDeliveryStatuses] = useState<Record<string, VoteDeliveryStatus>>(
+    () => p2pService.getVoteDeliveryStatuses()
+  );
   
   const { receiveVote } = useBattleContext();
   const isInitialized = useRef(false);
@@ -30,18 +42,24 @@ export const useP2P = (): UseP2PReturn => {
   // Update connection state when it changes
   const updateConnectionState = useCallback(() => {
     setConnectionState(p2pService.getConnectionState());
+    setPeerHealth(p2pService.getPeerHealth());
   }, []);
 
   // Initialize P2P service
-  const initialize = useCallback(async (pokemon1Index: number, pokemon2Index: number) => {
+  const initialize = useCallback(async (
+    pokemonIndexes: number[],
+    sessionId: string,
+    inviteCode?: string,
+    votingMethod?: VotingMethod
+  ) => {
     if (isInitialized.current) {
       console.log('⚠️ P2P already initialized, skipping...');
       return;
     }
 
     try {
-      console.log(`🚀 Initializing P2P connection for battle ${pokemon1Index} vs ${pokemon2Index}...`);
-      await p2pService.initialize(pokemon1Index, pokemon2Index);
+      console.log(`🚀 Initializing P2P connection for battle ${pokemonIndexes.join(' vs ')}...`);
+      await p2pService.initialize(pokemonIndexes, sessionId, inviteCode, votingMethod);
       isInitialized.current = true;
       updateConnectionState();
     } catch (error) {
@@ -50,9 +68,14 @@ export const useP2P = (): UseP2PReturn => {
   }, [updateConnectionState]);
 
   // Reinitialize P2P service with new Pokemon (for New Battle)
-  const reinitialize = useCallback(async (pokemon1Index: number, pokemon2Index: number) => {
+  const reinitialize = useCallback(async (
+    pokemonIndexes: number[],
+    sessionId: string,
+    inviteCode?: string,
+    votingMethod?: VotingMethod
+  ) => {
     try {
-      console.log(`🔄 Reinitializing P2P for new battle ${pokemon1Index} vs ${pokemon2Index}...`);
+      console.log(`🔄 Reinitializing P2P for new battle ${pokemonIndexes.join(' vs ')}...`);
       
       // First disconnect from current session
       p2pService.disconnect();
@@ -63,26 +86,39 @@ export const useP2P = (): UseP2PReturn => {
       await new Promise(resolve => setTimeout(resolve, 500));
       
       // Initialize new session
-      await p2pService.initialize(pokemon1Index, pokemon2Index);
+      await p2pService.initialize(pokemonIndexes, sessionId, inviteCode, votingMethod);
       isInitialized.current = true;
       updateConnectionState();
       
-      console.log(`✅ P2P reinitialized successfully for battle ${pokemon1Index} vs ${pokemon2Index}`);
+      console.log(`✅ P2P reinitialized successfully for battle ${pokemonIndexes.join(' vs ')}`);
     } catch (error) {
       console.error('❌ Failed to reinitialize P2P:', error);
     }
   }, [updateConnectionState]);
 
   // Broadcast vote to all peers
-  const broadcastVote = useCallback(async (pokemonName: string, userId: string) => {
+  const broadcastVote = useCallback(async (vote: Vote) => {
     try {
-      await p2pService.broadcastVote(pokemonName, userId);
-      console.log(`📤 Vote broadcasted for ${pokemonName}`);
+      await p2pService.broadcastVote(vote);
+      console.log(`📤 Vote broadcasted for ${vote.pokemonName}`);
     } catch (error) {
       console.error('❌ Failed to broadcast vote:', error);
     }
   }, []);
 
+  // Move the whole room to a new matchup
+  const announceBattleStart = useCallback(async (
+    pokemonIndexes: number[],
+    sessionId: string,
+    votingMethod?: VotingMethod
+  ) => {
+    try {
+      await p2pService.announceBattleStart(pokemonIndexes, sessionId, votingMethod);
+    } catch (error) {
+      console.error('❌ Failed to announce new battle:', error);
+    }
+  }, []);
+
   // Request state sync from peers
   const requestSync = useCallback(async () => {
     try {
@@ -93,7 +129,7 @@ export const useP2P = (): UseP2PReturn => {
     }
   }, []);
 
-  const sendStateToPeer = useCallback(async (peerId: string, votes: any[]) => {
+  const sendStateToPeer = useCallback(async (peerId: string, votes: Vote[]) => {
     try {
       await p2pService.sendStateToPeer(peerId, votes);
     } catch (error) {
@@ -114,16 +150,8 @@ export const useP2P = (): UseP2PReturn => {
     p2pService.onVoteReceived((voteData) => {
       console.log('📥 Received vote from peer:', voteData);
       
-      // Create vote object compatible with our context
-      const vote = {
-        id: voteData.voteId,
-        userId: voteData.userId,
-        pokemonName: voteData.pokemonName,
-        battleId: connectionState.roomId,
-        timestamp: voteData.timestamp
-      };
-      
-      receiveVote(vote);
+      // Create vote object compatible with our context (signature already verified)
+      receiveVote(voteFromMessagePayload(voteData));
     });
 
     // Handle peer connections
@@ -132,12 +160,33 @@ export const useP2P = (): UseP2PReturn => {
       updateConnectionState();
     });
 
+    // Handle join announcements (display info)
+    p2pService.onPeerJoined(() => {
+      updateConnectionState();
+    });
+
     // Handle peer disconnections
     p2pService.onPeerDisconnected((peerId) => {
       console.log(`🔌 Peer disconnected: ${peerId}`);
       updateConnectionState();
     });
 
+    // Handle peers running a build we can't talk to
+    p2pService.onPeerIncompatible((peer) => {
+      console.warn(`⚠️ Peer ${peer.id} runs incompatible protocol v${peer.protocolVersion}`);
+      updateConnectionState();
+    });
+
+    // Handle round-trip measurements and liveness checks
+    p2pService.onPeerHealthChanged((health) => {
+      setPeerHealth(health);
+    });
+
+    // Handle our own votes moving through the outbox
+    p2pService.onVoteDeliveryChanged((voteId, deliveryStatus) => {
+      setVoteDeliveryStatuses(current => ({ ...current, [voteId]: deliveryStatus }));
+    });
+
     // Handle connection status changes
     p2pService.onConnectionStatusChanged((newStatus) => {
       console.log(`📡 Connection status changed: ${newStatus}`);
@@ -145,10 +194,11 @@ export const useP2P = (): UseP2PReturn => {
       updateConnectionState();
     });
 
-    // Handle errors
+    // Handle errors - fatal ones also arrive as an 'error' status change,
+    // so a misbehaving peer can't flip the whole connection into error state
     p2pService.onError((error) => {
       console.error('❌ P2P Error:', error);
-      setStatus('error');
+      setLastError(error);
     });
 
     // Handle sync responses
@@ -165,7 +215,7 @@ export const useP2P = (): UseP2PReturn => {
     return () => {
       // Event handlers are managed by the service
     };
-  }, [receiveVote, updateConnectionState, connectionState.roomId]);
+  }, [receiveVote, updateConnectionState]);
 
   // Auto-cleanup on unmount
   useEffect(() => {
@@ -179,11 +229,16 @@ export const useP2P = (): UseP2PReturn => {
   return {
     connectionState,
     connectedPeersCount: connectionState.connectedPeers.size,
+    incompatiblePeersCount: connectionState.incompatiblePeers.size,
+    peerHealth,
+    voteDeliveryStatuses,
     status,
     isConnected: status === 'connected',
+    lastError,
     initialize,
     reinitialize,
     broadcastVote,
+    announceBattleStart,
     disconnect,
     requestSync,
     sendStateToPeer,
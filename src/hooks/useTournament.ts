@@ -0,0 +1,87 @@
+// Custom hook for the room's tournament bracket, replicated over P2P
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { p2pService } from '../services/p2pService';
+import { roomClock } from '../services/roomClock';
+import { pokemonApi } from '../services/pokemonApi';
+import { appConfig } from '../config/environment';
+import { Bracket, BracketSize, MatchResult } from '../types/tournament';
+import { createBracket, mergeBrackets, recordMatchResult } from '../utils/bracketHelpers';
+
+interface UseTournamentReturn {
+  bracket: Bracket | null;
+  // Seeds are Pokemon indexes, best first; random when not given
+  startTournament: (size: BracketSize, seedIndexes?: number[]) => Promise<Bracket>;
+  recordResult: (result: MatchResult) => void;
+  leaveTournament: () => void;
+}
+
+export const useTournament = (): UseTournamentReturn => {
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  // Read by the sync callback, which outlives any one render
+  const bracketRef = useRef<Bracket | null>(null);
+
+  const applyBracket = useCallback((next: Bracket | null, share: boolean) => {
+    if (next === bracketRef.current) {
+      return;
+    }
+
+    bracketRef.current = next;
+    setBracket(next);
+    if (share && next) {
+      p2pService.broadcastBracket(next).catch(error => {
+        console.error('❌ Failed to share bracket:', error);
+      });
+    }
+  }, []);
+
+  // Send our bracket with every sync and fold in everyone else's
+  useEffect(() => {
+    p2pService.setBracketCallback(() => bracketRef.current);
+    p2pService.onBracketReceived(incoming => {
+      applyBracket(mergeBrackets(bracketRef.current, incoming), false);
+    });
+  }, [applyBracket]);
+
+  const startTournament = useCallback(async (size: BracketSize, seedIndexes?: number[]): Promise<Bracket> => {
+    const seeds = seedIndexes
+      ? await pokemonApi.fetchBattlePokemon(seedIndexes)
+      : await pokemonApi.fetchRandomBattlePokemon(size);
+
+    const next = createBracket(
+      seeds.map(seed => ({ pokemonIndex: seed.id, name: seed.name, displayName: seed.displayName })),
+      appConfig.tournament.matchSeconds * 1000,
+      roomClock.now()
+    );
+    console.log(`🏆 Starting a ${seeds.length}-seed tournament (${next.id})`);
+
+    // Tell the current room before anyone moves on to the first match
+    bracketRef.current = next;
+    try {
+      await p2pService.broadcastBracket(next);
+    } catch (error) {
+      console.error('❌ Failed to share bracket:', error);
+    }
+    setBracket(next);
+    return next;
+  }, []);
+
+  const recordResult = useCallback((result: MatchResult) => {
+    if (!bracketRef.current) {
+      return;
+    }
+    applyBracket(recordMatchResult(bracketRef.current, result), true);
+  }, [applyBracket]);
+
+  // Forget the bracket - this tab stops following the tournament
+  const leaveTournament = useCallback(() => {
+    applyBracket(null, false);
+  }, [applyBracket]);
+
+  return {
+    bracket,
+    startTournament,
+    recordResult,
+    leaveTournament,
+  };
+};
@@ -3,15 +3,26 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { loadRuntimeConfig } from './config/runtimeConfig';
+import ConfigErrorScreen from './components/UI/ConfigErrorScreen';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// Deployment settings from config.json must be in place before anything reads them
+loadRuntimeConfig()
+  .then(() => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  })
+  .catch((error: Error) => {
+    console.error('❌ Invalid runtime configuration:', error);
+    root.render(<ConfigErrorScreen error={error} />);
+  });
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,38 @@
+import { PeerConnection } from '../types/p2p';
+import { ConnectionManager } from './connectionManager';
+
+const connectedPeers = (count: number): Map<string, PeerConnection> =>
+  new Map(Array.from({ length: count }, (_, index) => {
+    const peer = { id: `peer_${index}`, connectedAt: 0, lastSeen: 0 } as PeerConnection;
+    return [peer.id, peer];
+  }));
+
+test('dials only up to half the cap, leaving the rest for newcomers', () => {
+  const manager = new ConnectionManager(5);
+  const members = Array.from({ length: 10 }, (_, index) => `member_${index}`);
+
+  expect(manager.selectDialTargets(members, new Map())).toEqual(['member_0', 'member_1', 'member_2']);
+  expect(manager.selectDialTargets(members, connectedPeers(2))).toEqual(['member_0']);
+  expect(manager.selectDialTargets(members, connectedPeers(3))).toEqual([]);
+
+  // Incoming channels still fill the whole cap
+  expect(manager.hasCapacity(connectedPeers(4))).toBe(true);
+  expect(manager.hasCapacity(connectedPeers(5))).toBe(false);
+});
+
+test('a newcomer only replaces a peer that is both slow and recent', () => {
+  const manager = new ConnectionManager(3);
+  const now = 60 * 60 * 1000;
+  const peer = (id: string, minutesConnected: number, latency?: number) =>
+    ({ id, connectedAt: now - minutesConnected * 60000, lastSeen: now, latency } as PeerConnection);
+  const mesh = (...members: PeerConnection[]) => new Map(members.map(member => [member.id, member]));
+
+  expect(manager.rankPeers(mesh(peer('slow', 1, 900), peer('fast', 1, 20), peer('old', 30, 400)), now).map(member => member.id))
+    .toEqual(['old', 'fast', 'slow']);
+
+  // Evicted: slower than an unmeasured newcomer is assumed to be
+  expect(manager.selectPeerToEvict(mesh(peer('slow', 1, 900), peer('fast', 1, 20)), now)?.id).toBe('slow');
+  // Kept: long-lived enough to make up for it, or not measured yet
+  expect(manager.selectPeerToEvict(mesh(peer('old', 30, 900), peer('fast', 1, 20)), now)).toBeNull();
+  expect(manager.selectPeerToEvict(mesh(peer('new', 0), peer('fast', 1, 20)), now)).toBeNull();
+});
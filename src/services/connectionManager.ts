@@ -0,0 +1,86 @@
+// Connection management policy for the P2P mesh
+//
+// Browsers cope badly with dozens of simultaneous RTCPeerConnections, so each
+// peer keeps at most maxConnections channels open. Gossip carries votes across
+// the rest of the room. Peers are ranked by latency and how long they have
+// been connected. A newcomer that arrives when we are full takes the place of
+// our worst peer if that peer ranks below an unmeasured newcomer (slow and
+// recent); otherwise it is redirected to our best peers instead.
+//
+// Members are dialled in join order, longest-lived first, and only up to half
+// the cap - the rest stays free for newcomers. Otherwise the first members of
+// a large room fill each other up and lock everyone after them out.
+
+import { PeerConnection } from '../types/p2p';
+
+// Latency assumed for peers we haven't measured yet
+const UNKNOWN_LATENCY_MS = 300;
+// Age stops counting in a peer's favour after this long
+const MAX_AGE_BONUS_MS = 10 * 60 * 1000;
+const MAX_REDIRECT_TARGETS = 5;
+
+export class ConnectionManager {
+  private readonly dialTarget: number;
+
+  constructor(private readonly maxConnections: number) {
+    this.dialTarget = Math.ceil(maxConnections / 2);
+  }
+
+  /**
+   * Whether another channel fits under the cap
+   */
+  hasCapacity(peers: Map<string, PeerConnection>): boolean {
+    return peers.size < this.maxConnections;
+  }
+
+  /**
+   * Choose which of the given members to dial, in order, up to the dial target
+   */
+  selectDialTargets(candidates: string[], peers: Map<string, PeerConnection>): string[] {
+    const available = Math.max(0, this.dialTarget - peers.size);
+    return candidates
+      .filter(peerId => !peers.has(peerId))
+      .slice(0, available);
+  }
+
+  /**
+   * Connected peers from most to least worth keeping
+   */
+  rankPeers(peers: Map<string, PeerConnection>, now: number = Date.now()): PeerConnection[] {
+    return Array.from(peers.values()).sort((a, b) => this.scorePeer(b, now) - this.scorePeer(a, now));
+  }
+
+  /**
+   * Members a rejected newcomer should try instead - our best peers first
+   */
+  getRedirectTargets(peers: Map<string, PeerConnection>, newcomerId: string): string[] {
+    return this.rankPeers(peers)
+      .map(peer => peer.id)
+      .filter(peerId => peerId !== newcomerId)
+      .slice(0, MAX_REDIRECT_TARGETS);
+  }
+
+  /**
+   * When full, the peer to drop to make room for a newcomer: our worst-ranked
+   * peer, if it scores below a newcomer we haven't measured yet. Null keeps
+   * every channel, and the newcomer is redirected.
+   */
+  selectPeerToEvict(peers: Map<string, PeerConnection>, now: number = Date.now()): PeerConnection | null {
+    const worst = this.rankPeers(peers, now).pop();
+    if (!worst) {
+      return null;
+    }
+    return this.scorePeer(worst, now) < this.scorePeer({ connectedAt: now }, now) ? worst : null;
+  }
+
+  /**
+   * Higher is better: one point per minute connected (capped), minus one per 100ms of round trip
+   */
+  private scorePeer(peer: Pick<PeerConnection, 'connectedAt' | 'latency'>, now: number): number {
+    const age = Math.min(now - peer.connectedAt, MAX_AGE_BONUS_MS);
+    const latency = peer.latency ?? UNKNOWN_LATENCY_MS;
+    return age / 60000 - latency / 100;
+  }
+}
+
+export default ConnectionManager;
@@ -0,0 +1,201 @@
+// Per-browser signing identity backed by a persistent WebCrypto ECDSA keypair
+
+import { Vote } from '../types/voting';
+
+const IDENTITY_STORAGE_KEY = 'pokemon_battle_identity';
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+interface StoredIdentity {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+export interface SigningIdentity {
+  publicKey: JsonWebKey;
+  privateKey: CryptoKey;
+  fingerprint: string;
+  // The voter ID this key signs as, see getUserIdForFingerprint
+  userId: string;
+}
+
+// signVote fills in the voter ID from the key
+export type UnsignedVote = Omit<Vote, 'userId' | 'signature' | 'publicKey' | 'signerFingerprint'>;
+type SignedFields = Omit<Vote, 'signature' | 'publicKey' | 'signerFingerprint'>;
+
+/**
+ * The voter ID a key signs as. Deriving it from the key means nobody can cast,
+ * change or withdraw a ballot under someone else's ID without their private key.
+ */
+export const getUserIdForFingerprint = (fingerprint: string): string => {
+  return `user_${fingerprint}`;
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(buffer))));
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export class IdentityService {
+  private identityPromise: Promise<SigningIdentity> | null = null;
+
+  // Tests give each simulated browser its own key under its own storage key
+  constructor(private readonly storageKey: string = IDENTITY_STORAGE_KEY) {}
+
+  /**
+   * Load this browser's identity, generating and persisting one on first use
+   */
+  getIdentity(): Promise<SigningIdentity> {
+    if (!this.identityPromise) {
+      this.identityPromise = this.loadOrCreateIdentity().catch(error => {
+        this.identityPromise = null;
+        throw error;
+      });
+    }
+    return this.identityPromise;
+  }
+
+  /**
+   * Sign a vote with this browser's key, as this browser's voter ID
+   */
+  async signVote(unsigned: UnsignedVote): Promise<Vote> {
+    const identity = await this.getIdentity();
+    const vote = { ...unsigned, userId: identity.userId };
+    const data = this.getSigningData(vote, identity.fingerprint);
+    const signature = await this.getSubtle().sign(SIGN_ALGORITHM, identity.privateKey, data);
+
+    return {
+      ...vote,
+      publicKey: identity.publicKey,
+      signerFingerprint: identity.fingerprint,
+      signature: toBase64(signature),
+    };
+  }
+
+  /**
+   * Verify a vote's signature and that its userId is the signer's own. Every
+   * check is on the vote alone, so votes can be verified in any order or all
+   * at once.
+   */
+  async verifyVote(vote: Vote): Promise<boolean> {
+    if (!vote.signature || !vote.publicKey || !vote.signerFingerprint) {
+      return false;
+    }
+
+    try {
+      const fingerprint = await this.computeFingerprint(vote.publicKey);
+      if (fingerprint !== vote.signerFingerprint) {
+        return false;
+      }
+
+      if (vote.userId !== getUserIdForFingerprint(fingerprint)) {
+        console.warn(`🚫 Vote for ${vote.userId} signed by a different key (${fingerprint})`);
+        return false;
+      }
+
+      const publicKey = await this.getSubtle().importKey('jwk', vote.publicKey, KEY_ALGORITHM, false, ['verify']);
+      return await this.getSubtle().verify(
+        SIGN_ALGORITHM,
+        publicKey,
+        fromBase64(vote.signature),
+        this.getSigningData(vote, fingerprint)
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to verify vote signature:', error);
+      return false;
+    }
+  }
+
+  private async loadOrCreateIdentity(): Promise<SigningIdentity> {
+    const subtle = this.getSubtle();
+    const stored = this.readStoredIdentity();
+
+    if (stored) {
+      try {
+        const privateKey = await subtle.importKey('jwk', stored.privateKey, KEY_ALGORITHM, false, ['sign']);
+        const fingerprint = await this.computeFingerprint(stored.publicKey);
+        return { publicKey: stored.publicKey, privateKey, fingerprint, userId: getUserIdForFingerprint(fingerprint) };
+      } catch (error) {
+        console.warn('⚠️ Stored identity is unusable, generating a new one:', error);
+      }
+    }
+
+    const keyPair = await subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+    const publicKey = await subtle.exportKey('jwk', keyPair.publicKey);
+    const privateKey = await subtle.exportKey('jwk', keyPair.privateKey);
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ publicKey, privateKey }));
+    } catch (error) {
+      console.warn('Failed to persist identity to localStorage:', error);
+    }
+
+    const fingerprint = await this.computeFingerprint(publicKey);
+    console.log(`🔑 Generated signing identity ${fingerprint}`);
+    return { publicKey, privateKey: keyPair.privateKey, fingerprint, userId: getUserIdForFingerprint(fingerprint) };
+  }
+
+  private readStoredIdentity(): StoredIdentity | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to read identity from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Short, stable identifier for a public key
+   */
+  private async computeFingerprint(publicKey: JsonWebKey): Promise<string> {
+    const canonical = `${publicKey.crv}:${publicKey.x}:${publicKey.y}`;
+    const digest = await this.getSubtle().digest('SHA-256', new TextEncoder().encode(canonical));
+    return toHex(digest).substring(0, 32);
+  }
+
+  /**
+   * Canonical bytes covered by the signature. The vote id is included, so a
+   * vote cannot be re-broadcast under a new id without invalidating it.
+   * Only retractions sign the extra flag, and only approval and ranked
+   * ballots sign their choices, so plurality votes still verify on builds
+   * that predate either.
+   */
+  private getSigningData(vote: SignedFields, fingerprint: string): Uint8Array {
+    const fields: unknown[] = [
+      vote.id,
+      vote.userId,
+      vote.battleId,
+      vote.pokemonName,
+      vote.timestamp,
+      fingerprint,
+    ];
+    if (vote.retracted) {
+      fields.push(true);
+    }
+    if (vote.choices) {
+      fields.push(vote.choices);
+    }
+    return new TextEncoder().encode(JSON.stringify(fields));
+  }
+
+  private getSubtle(): SubtleCrypto {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('WebCrypto is unavailable - votes can only be signed in a secure (HTTPS) context');
+    }
+    return crypto.subtle;
+  }
+}
+
+// Export singleton instance
+export const identityService = new IdentityService();
+export default identityService;
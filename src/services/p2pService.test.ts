@@ -0,0 +1,394 @@
+import { MIN_PROTOCOL_VERSION, PROTOCOL_CAPABILITIES, PROTOCOL_VERSION } from '../config/protocol';
+import { FakeNetwork } from '../testUtils/fakeNetwork';
+import { createRoom, DEFAULT_BATTLE, hasConverged, SimulatedPeer, summarizeResults, waitFor } from '../testUtils/simulatedRoom';
+import { Vote } from '../types/voting';
+import { createBracket, getCurrentMatch, recordMatchResult } from '../utils/bracketHelpers';
+
+let peers: SimulatedPeer[] = [];
+
+const connectedTo = (count: number) => () => peers.every(peer => peer.connectedPeerIds.length >= count);
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+beforeEach(() => {
+  localStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  peers.forEach(peer => peer.leave());
+  peers = [];
+  jest.restoreAllMocks();
+});
+
+test('two peers see each other\'s votes', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b']);
+  await waitFor(connectedTo(1), 2000, 'connections');
+
+  await peers[0].vote('bulbasaur');
+  await peers[1].vote('charmander');
+
+  await waitFor(() => hasConverged(peers, 2), 2000, 'convergence');
+  expect(summarizeResults(peers[1].results)).toEqual({ bulbasaur: 1, charmander: 1 });
+});
+
+test('a late joiner receives the votes cast before it arrived', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b']);
+  await waitFor(connectedTo(1), 2000, 'connections');
+  await peers[0].vote('bulbasaur');
+  await peers[1].vote('bulbasaur');
+
+  peers.push(...await createRoom(network, ['c']));
+
+  await waitFor(() => hasConverged(peers, 2), 2000, 'convergence');
+  expect(summarizeResults(peers[2].results)).toEqual({ bulbasaur: 2 });
+});
+
+test('converges despite jittery latency and message loss', async () => {
+  const network = new FakeNetwork({ latency: [1, 30] });
+  peers = await createRoom(network, ['a', 'b', 'c', 'd']);
+  await waitFor(connectedTo(3), 2000, 'full mesh');
+  network.setLossRate(0.2);
+
+  await Promise.all(peers.map((peer, index) => peer.vote(index % 2 === 0 ? 'bulbasaur' : 'charmander')));
+
+  await waitFor(() => hasConverged(peers, 4), 5000, 'convergence');
+  expect(summarizeResults(peers[0].results)).toEqual({ bulbasaur: 2, charmander: 2 });
+});
+
+test('both sides of a healed partition end up with every vote', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b', 'c', 'd']);
+  await waitFor(connectedTo(3), 2000, 'full mesh');
+
+  network.partition(['a', 'b'], ['c', 'd']);
+  await peers[0].vote('bulbasaur');
+  await peers[2].vote('charmander');
+  await peers[3].vote('charmander');
+
+  await waitFor(() => hasConverged(peers.slice(0, 2), 1) && hasConverged(peers.slice(2), 2), 2000, 'each side to agree');
+  expect(summarizeResults(peers[0].results)).toEqual({ bulbasaur: 1 });
+
+  network.heal();
+
+  await waitFor(() => hasConverged(peers, 3), 5000, 'convergence after healing');
+  expect(summarizeResults(peers[0].results)).toEqual({ bulbasaur: 1, charmander: 2 });
+});
+
+test('a peer that drops offline catches up and delivers its queued vote', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b', 'c']);
+  await waitFor(connectedTo(2), 2000, 'full mesh');
+
+  network.disconnect('c');
+  await peers[0].vote('bulbasaur');
+  const offlineVote = await peers[2].vote('charmander');
+  expect(peers[2].service.getVoteDeliveryStatuses()[offlineVote.id]).toBe('pending');
+
+  network.reconnect('c');
+
+  await waitFor(() => hasConverged(peers, 2), 5000, 'convergence after reconnecting');
+  expect(summarizeResults(peers[2].results)).toEqual({ bulbasaur: 1, charmander: 1 });
+  await waitFor(() => peers[2].service.getVoteDeliveryStatuses()[offlineVote.id] === 'delivered', 2000, 'delivery');
+});
+
+test('discovers the room through the roster host when the broker cannot list it', async () => {
+  const network = new FakeNetwork({ roomListing: false });
+  peers = await createRoom(network, ['a', 'b', 'c']);
+  await waitFor(connectedTo(2), 3000, 'full mesh');
+
+  await peers[1].vote('charmander');
+
+  await waitFor(() => hasConverged(peers, 1), 2000, 'convergence');
+});
+
+test('gossip carries votes across a partly connected room', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b', 'c', 'd', 'e'], { maxConnections: 2 });
+  await waitFor(connectedTo(1), 3000, 'every peer to have a channel');
+  expect(peers.some(peer => peer.connectedPeerIds.length < peers.length - 1)).toBe(true);
+
+  await Promise.all(peers.map(peer => peer.vote('bulbasaur')));
+
+  await waitFor(() => hasConverged(peers, 5), 5000, 'convergence');
+  expect(summarizeResults(peers[4].results)).toEqual({ bulbasaur: 5 });
+});
+
+test('changed and withdrawn votes replace the original ballot everywhere', async () => {
+  const network = new FakeNetwork({ latency: [1, 20] });
+  peers = await createRoom(network, ['a', 'b', 'c']);
+  await waitFor(connectedTo(2), 2000, 'full mesh');
+
+  await peers[0].vote('bulbasaur');
+  await peers[1].vote('bulbasaur');
+  await waitFor(() => hasConverged(peers, 2), 2000, 'first ballots');
+
+  await peers[0].changeVote('charmander');
+  await peers[1].retract();
+
+  await waitFor(
+    () => hasConverged(peers) && peers.every(peer => peer.state.totalVotes === 1),
+    2000,
+    'superseded ballots'
+  );
+  expect(peers[2].state.results.charmander.count).toBe(1);
+  expect(peers[2].state.results.bulbasaur?.count ?? 0).toBe(0);
+});
+
+test('a timed battle closes at the same moment on skewed clocks and freezes its result', async () => {
+  const network = new FakeNetwork({ latency: [1, 10] });
+  const battle = { ...DEFAULT_BATTLE, durationMs: 2500 };
+  const skews: Array<[string, number]> = [['a', -400], ['b', 0], ['c', 700]];
+  for (const [name, skew] of skews) {
+    const peer = new SimulatedPeer(name, network, battle, {}, skew);
+    await peer.join();
+    peers.push(peer);
+  }
+  await waitFor(connectedTo(2), 2000, 'full mesh');
+
+  await waitFor(() => new Set(peers.map(peer => peer.state.endTime)).size === 1, 2000, 'a shared end time');
+  await waitFor(() => spread(peers.map(peer => peer.clock.now())) < 30, 2000, 'clock agreement');
+
+  await peers[0].vote('bulbasaur');
+  await peers[1].vote('charmander');
+  await peers[2].vote('charmander');
+
+  await waitFor(() => peers.every(peer => peer.state.status === 'completed'), 4000, 'the battle to close');
+  expect(spread(peers.map(peer => peer.closedAt as number))).toBeLessThan(100);
+
+  // A stale tab keeps voting after the close - nobody counts it
+  await peers[2].vote('bulbasaur');
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  peers.forEach(peer => {
+    expect(summarizeResults(peer.results)).toEqual({ bulbasaur: 1, charmander: 2 });
+    expect(peer.state.winner).toBe('charmander');
+  });
+});
+
+test('a private room keeps out peers without the invite code', async () => {
+  const network = new FakeNetwork();
+  const officePoll = { ...DEFAULT_BATTLE, inviteCode: 'officepoll' };
+  for (const [name, battle] of [['a', officePoll], ['b', officePoll], ['public', DEFAULT_BATTLE]] as const) {
+    const peer = new SimulatedPeer(name, network, battle);
+    await peer.join();
+    peers.push(peer);
+  }
+  const [a, b, publicPeer] = peers;
+  await waitFor(() => a.connectedPeerIds.length === 1 && b.connectedPeerIds.length === 1, 2000, 'the private room');
+
+  // Someone who learned a member's ID still can't dial in without the proof
+  const intruderId = `${a.service.getConnectionState().roomId}_intruder`;
+  const intruder = network.createTransportFactory('intruder')();
+  await intruder.open(intruderId, 1000);
+  let isRejected = false;
+  const channel = intruder.connect(a.service.getConnectionState().peerId);
+  channel.on('open', () => channel.send({
+    type: 'HELLO',
+    payload: { protocolVersion: PROTOCOL_VERSION, minProtocolVersion: MIN_PROTOCOL_VERSION, capabilities: PROTOCOL_CAPABILITIES },
+    timestamp: Date.now(),
+    peerId: intruderId,
+    messageId: 'hello_intruder',
+    battleId: a.service.getConnectionState().roomId
+  }));
+  channel.on('close', () => { isRejected = true; });
+  // Turned away straight away, well before a silent peer would time out
+  await waitFor(() => isRejected, 200, 'the intruder to be turned away');
+
+  await a.vote('bulbasaur');
+  await publicPeer.vote('charmander');
+  await waitFor(() => hasConverged([a, b], 1), 2000, 'the private room to converge');
+
+  expect(a.connectedPeerIds).not.toContain(intruderId);
+  expect(a.connectedPeerIds).toEqual([b.service.getConnectionState().peerId]);
+  expect(publicPeer.connectedPeerIds).toEqual([]);
+  expect(summarizeResults(b.results)).toEqual({ bulbasaur: 1 });
+  intruder.destroy();
+});
+
+test('peers in a four-candidate battle converge on the same ranking', async () => {
+  const network = new FakeNetwork();
+  const starters = {
+    ...DEFAULT_BATTLE,
+    pokemonIndexes: [25, 1, 7, 4],
+    pokemonNames: ['pikachu', 'bulbasaur', 'squirtle', 'charmander']
+  };
+  for (const name of ['a', 'b', 'c']) {
+    const peer = new SimulatedPeer(name, network, starters);
+    await peer.join();
+    peers.push(peer);
+  }
+  await waitFor(connectedTo(2), 2000, 'full mesh');
+
+  await peers[0].vote('squirtle');
+  await peers[1].vote('pikachu');
+  await peers[2].vote('squirtle');
+
+  await waitFor(() => hasConverged(peers, 3), 2000, 'convergence');
+  peers.forEach(peer => {
+    expect(peer.state.candidateNames).toEqual(starters.pokemonNames);
+    expect(peer.state.winner).toBe('squirtle');
+    expect(peer.state.outcome.ranking.map(entry => entry.pokemonName)).toEqual(['squirtle', 'pikachu']);
+  });
+});
+
+test('ranked ballots reach every peer intact and run off the same way', async () => {
+  const network = new FakeNetwork();
+  const rankedBattle = {
+    ...DEFAULT_BATTLE,
+    pokemonIndexes: [25, 1, 7],
+    pokemonNames: ['pikachu', 'bulbasaur', 'squirtle'],
+    votingMethod: 'ranked' as const
+  };
+  for (const name of ['a', 'b', 'c', 'd', 'e']) {
+    const peer = new SimulatedPeer(name, network, rankedBattle);
+    await peer.join();
+    peers.push(peer);
+  }
+  await waitFor(connectedTo(4), 3000, 'full mesh');
+
+  // squirtle and pikachu tie on first choices until bulbasaur's ballot passes to pikachu
+  await peers[0].vote(['squirtle']);
+  await peers[1].vote(['squirtle', 'pikachu']);
+  await peers[2].vote(['pikachu', 'squirtle']);
+  await peers[3].vote(['pikachu']);
+  await peers[4].vote(['bulbasaur', 'pikachu']);
+
+  await waitFor(() => peers.every(peer => peer.state.votes.length === 5), 2000, 'every ballot');
+  peers.forEach(peer => {
+    expect(peer.state.runoffRounds?.map(round => round.eliminated)).toEqual(['bulbasaur', undefined]);
+    expect(peer.state.outcome).toMatchObject({ kind: 'winner', winner: 'pikachu' });
+  });
+});
+
+test('a tournament bracket reaches the room and late joiners, and its results converge', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b']);
+  await waitFor(connectedTo(1), 2000, 'connections');
+  const [a, b] = peers;
+
+  const seeds = Array.from({ length: 8 }, (_, offset) => ({
+    pokemonIndex: offset + 1,
+    name: `pokemon${offset + 1}`,
+    displayName: `Pokemon ${offset + 1}`
+  }));
+  const bracket = createBracket(seeds, 60000, a.clock.now());
+  await a.shareBracket(bracket);
+  await waitFor(() => b.bracket?.id === bracket.id, 2000, 'the bracket');
+
+  // Both close the first match, one of them having missed a vote
+  await a.shareBracket(recordMatchResult(bracket, { matchId: 'r0m0', winner: 1, votes: [1, 0] }));
+  await b.shareBracket(recordMatchResult(bracket, { matchId: 'r0m0', winner: 8, votes: [1, 2] }));
+
+  peers.push(...await createRoom(network, ['c']));
+
+  await waitFor(() => peers.every(peer => peer.bracket?.results.length === 1 && peer.bracket.results[0].winner === 8), 2000, 'the result');
+  peers.forEach(peer => expect(getCurrentMatch(peer.bracket!)?.id).toBe('r0m1'));
+});
+
+/**
+ * A vote for someone else's userId, validly signed by a fresh key of the
+ * forger's - built by hand, as signVote always signs as its own key's voter
+ */
+const forgeVote = async (victim: Vote, pokemonName: string, timestamp: number): Promise<Vote> => {
+  const { subtle } = globalThis.crypto;
+  const keyPair = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const publicKey = await subtle.exportKey('jwk', keyPair.publicKey);
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(`${publicKey.crv}:${publicKey.x}:${publicKey.y}`));
+  const signerFingerprint = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .substring(0, 32);
+
+  const vote = { id: `forged_${signerFingerprint}`, userId: victim.userId, battleId: victim.battleId, pokemonName, timestamp };
+  const data = JSON.stringify([vote.id, vote.userId, vote.battleId, vote.pokemonName, vote.timestamp, signerFingerprint]);
+  const signature = await subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, new TextEncoder().encode(data));
+
+  return {
+    ...vote,
+    signerFingerprint,
+    publicKey,
+    signature: btoa(String.fromCharCode(...Array.from(new Uint8Array(signature))))
+  };
+};
+
+test('ballots signed by other keys cannot replace a voter\'s ballot', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b', 'mallory']);
+  await waitFor(connectedTo(2), 2000, 'full mesh');
+  const [a, b, mallory] = peers;
+
+  const ballot = await a.vote('bulbasaur');
+  await waitFor(() => hasConverged(peers, 1), 2000, 'the first ballot');
+
+  // Two different keys both sign for a's userId, later than a's own ballot
+  const forgeries = [
+    await forgeVote(ballot, 'charmander', ballot.timestamp + 1000),
+    await forgeVote(ballot, 'charmander', ballot.timestamp + 2000)
+  ];
+  for (const forgery of forgeries) {
+    mallory.dispatch({ type: 'SYNC_VOTES', payload: [forgery] });
+    await mallory.service.broadcastVote(forgery);
+  }
+
+  // A fresh tab verifies a whole sync at once and has seen neither key before
+  peers.push(...await createRoom(network, ['late']));
+  const late = peers[3];
+  await waitFor(() => late.state.votes.length > 0, 2000, 'the late joiner\'s sync');
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  [a, b, late].forEach(peer => {
+    expect(peer.state.votes.map(vote => vote.id)).toEqual([ballot.id]);
+    expect(summarizeResults(peer.results)).toEqual({ bulbasaur: 1 });
+  });
+});
+
+test('a newcomer at the cap only replaces a slow peer once it has proved compatible', async () => {
+  const network = new FakeNetwork();
+  peers = await createRoom(network, ['a', 'b'], { maxConnections: 1, connectionTimeout: 3000 });
+  await waitFor(connectedTo(1), 2000, 'a and b to connect');
+  const [a, b] = peers;
+  const bId = b.service.getConnectionState().peerId;
+  const roomId = a.service.getConnectionState().roomId;
+
+  // A slow link to a recent peer makes b worth replacing
+  network.setLatency(250);
+  await waitFor(() => (a.service.getPeerHealth()[0]?.latency ?? 0) > 300, 5000, 'b to measure as slow');
+
+  const newcomers = network.createTransportFactory('newcomers')();
+  const dialIn = async (name: string, protocolVersion?: number) => {
+    const newcomerId = `${roomId}_${name}`;
+    await newcomers.open(newcomerId, 1000);
+    const channel = newcomers.connect(a.service.getConnectionState().peerId);
+    const closed = { value: false };
+    channel.on('close', () => { closed.value = true; });
+    if (protocolVersion !== undefined) {
+      channel.on('open', () => channel.send({
+        type: 'HELLO',
+        payload: { protocolVersion, minProtocolVersion: protocolVersion, capabilities: PROTOCOL_CAPABILITIES },
+        timestamp: Date.now(),
+        peerId: newcomerId,
+        messageId: `hello_${name}`,
+        battleId: roomId
+      }));
+    }
+    return { newcomerId, closed };
+  };
+
+  // One that never says HELLO, and one that speaks a protocol we dropped
+  await dialIn('silent');
+  const incompatible = await dialIn('incompatible', MIN_PROTOCOL_VERSION - 1);
+  await waitFor(() => incompatible.closed.value, 3000, 'the incompatible newcomer to be turned away');
+  await new Promise(resolve => setTimeout(resolve, 300));
+  expect(a.connectedPeerIds).toEqual([bId]);
+
+  // A compatible newcomer does take b's place
+  const compatible = await dialIn('compatible', PROTOCOL_VERSION);
+  await waitFor(() => a.connectedPeerIds.includes(compatible.newcomerId), 3000, 'the compatible newcomer to get in');
+  expect(a.connectedPeerIds).not.toContain(bId);
+  newcomers.destroy();
+  // The slow link takes a few seconds to measure and to handshake over
+}, 15000);
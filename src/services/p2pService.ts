@@ -1,24 +1,107 @@
 // P2P WebRTC service for serverless real-time communication
 
-import Peer, { DataConnection } from 'peerjs';
 import { appConfig } from '../config/environment';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION,
+  GOSSIP_MESSAGE_TYPES,
+  RELIABLE_MESSAGE_TYPES
+} from '../config/protocol';
 import {
   P2PMessage,
+  P2PAckMessage,
+  P2PRedirectMessage,
+  P2PHelloMessage,
   P2PVoteMessage,
   P2PSyncMessage,
+  P2PPeerJoinMessage,
+  P2PPeerLeaveMessage,
+  P2PBattleStartMessage,
+  P2PBracketMessage,
+  P2PHeartbeatMessage,
+  P2PVoteAckMessage,
   PeerConnection,
+  PeerHealth,
   P2PConnectionState,
   P2PEventHandlers,
   P2PServiceConfig,
-  P2PStatus
+  P2PStatus,
+  ProtocolNegotiation,
+  TransportError,
+  VoteChannel,
+  VoteConnectOptions,
+  VoteDeliveryStatus,
+  VoteTransport
 } from '../types/p2p';
+import { BattleTiming, Vote, VotingMethod } from '../types/voting';
+import { Bracket } from '../types/tournament';
+import { createVoteTransport, VoteTransportFactory } from './transports/voteTransport';
+import { RosterHost } from './rosterHost';
+import { ConnectionManager } from './connectionManager';
+import { IdentityService, identityService } from './identityService';
+import { VoteOutbox, voteOutbox } from './voteOutbox';
+import { RoomClock, roomClock } from './roomClock';
+import {
+  battleAnnouncementFromPayload,
+  battleTimingFromPayload,
+  battleTimingToPayload,
+  classifyPeerQuality,
+  generateMessageId,
+  getBackoffDelay,
+  generatePeerId,
+  getDisplayName,
+  generateRoomId,
+  getRosterSlotId,
+  isPeerInRoom,
+  negotiateProtocol,
+  voteFromMessagePayload,
+  voteToMessagePayload
+} from '../utils/p2pHelpers';
+import { validateP2PMessage } from '../utils/messageValidation';
+import { BoundedSet } from '../utils/boundedSet';
+import { createRoomProof, getPrivateRoomTag, hasRoomProof } from '../utils/roomAccess';
+import { isValidBracket } from '../utils/bracketHelpers';
+
+// Weight of the newest round-trip sample in the smoothed latency
+const LATENCY_SMOOTHING = 0.3;
+
+// Time for a REDIRECT to flush before its channel is closed
+const REDIRECT_CLOSE_DELAY = 500;
+
+// Timings and limits - each instance can override them (tests shorten the timers)
+const DEFAULT_CONFIG: P2PServiceConfig = {
+  maxConnections: 8,
+  connectionTimeout: 10000,
+  heartbeatInterval: 10000,
+  staleAfterHeartbeats: 3,
+  discoveryTimeout: 5000,
+  reconnectAttempts: 8,
+  reconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  maxInvalidMessages: 5,
+  ackTimeout: 3000,
+  maxRetransmits: 5,
+  seenMessageLimit: 5000,
+  gossipTtl: 4
+};
+
+// A reliable message waiting for the receiver's ACK
+interface PendingAck {
+  peerId: string;
+  message: P2PMessage;
+  attempts: number;
+  timeout: NodeJS.Timeout | null;
+}
 
-class P2PService {
-  private peer: Peer | null = null;
+export class P2PService {
+  private transport: VoteTransport | null = null;
   private state: P2PConnectionState = {
     peerId: '',
     isConnected: false,
     connectedPeers: new Map(),
+    incompatiblePeers: new Map(),
     connectionAttempts: 0,
     roomId: '',
     status: 'offline'
@@ -27,36 +110,75 @@ class P2PService {
   private eventHandlers: Partial<P2PEventHandlers> = {};
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private discoveryTimeout: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private peerReconnects = new Map<string, { attempts: number; timeout: NodeJS.Timeout | null }>();
+  private isReconnecting: boolean = false;
+  private pendingTransportReconnect: (() => void) | null = null;
+  // Bumped on every disconnect so in-flight reconnects from an old session give up
+  private sessionGeneration: number = 0;
+  private rosterHost: RosterHost | null = null;
+  private rosterChannel: VoteChannel | null = null;
   private isIntentionalDisconnect: boolean = false;
-  private getCurrentStateCallback: (() => any[]) | null = null;
+  private getCurrentStateCallback: (() => Vote[]) | null = null;
+  private getBattleStateCallback: (() => BattleTiming | null) | null = null;
+  private getBracketCallback: (() => Bracket | null) | null = null;
+  // Set while in a private room; peers must present the proof to connect
+  private privateRoomTag: string | undefined;
+  private roomProof: string | null = null;
+  private invalidMessageCounts = new Map<string, number>();
+  private pendingAcks = new Map<string, PendingAck>();
+  private seenMessages: BoundedSet<string>;
+  private connectionManager: ConnectionManager;
+  // Peers that turned us away this discovery round
+  private redirectedBy = new Set<string>();
   
-  private readonly config: P2PServiceConfig = {
-    maxConnections: 8,
-    connectionTimeout: 10000,
-    heartbeatInterval: 30000,
-    discoveryTimeout: 5000,
-    reconnectAttempts: 3,
-    reconnectDelay: 2000
-  };
+  private readonly config: P2PServiceConfig;
+
+  constructor(
+    private readonly transportFactory: VoteTransportFactory = () => createVoteTransport(),
+    config: Partial<P2PServiceConfig> = {},
+    private readonly clock: RoomClock = roomClock,
+    // This browser's signing identity and vote outbox (one per simulated peer in tests)
+    private readonly identity: IdentityService = identityService,
+    private readonly outbox: VoteOutbox = voteOutbox
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.seenMessages = new BoundedSet(this.config.seenMessageLimit);
+    this.connectionManager = new ConnectionManager(this.config.maxConnections);
+  }
 
   /**
-   * Initialize P2P service with deterministic room-based discovery
+   * Initialize P2P service with deterministic room-based discovery. An invite
+   * code joins the private room it opens instead of the public one.
    */
-  async initialize(pokemon1Index: number, pokemon2Index: number): Promise<void> {
+  async initialize(
+    pokemonIndexes: number[],
+    sessionId: string,
+    inviteCode?: string,
+    votingMethod: VotingMethod = 'plurality'
+  ): Promise<void> {
     try {
       this.updateStatus('discovering');
       
       // Reset intentional disconnect flag for new session
       this.isIntentionalDisconnect = false;
+
+      // Tell peers we're gone when the tab closes, instead of leaving them to time out
+      if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', this.handlePageHide);
+        window.addEventListener('online', this.handleOnline);
+      }
       
-      // Generate deterministic room ID
-      this.state.roomId = this.generateRoomId(pokemon1Index, pokemon2Index);
+      // Generate deterministic room ID - one room per battle session
+      this.privateRoomTag = inviteCode ? await getPrivateRoomTag(inviteCode) : undefined;
+      this.state.roomId = this.generateRoomId(pokemonIndexes, sessionId, votingMethod);
+      this.roomProof = inviteCode ? await createRoomProof(inviteCode, this.state.roomId) : null;
       
       // Create unique peer ID for this session
       this.state.peerId = this.generatePeerId(this.state.roomId);
       
       console.log(`🔗 Initializing P2P service...`);
-      console.log(`📍 Room: ${this.state.roomId}`);
+      console.log(`📍 Room: ${this.state.roomId}${this.roomProof ? ' (private)' : ''}`);
       console.log(`🆔 Peer ID: ${this.state.peerId}`);
       
       try {
@@ -68,6 +190,7 @@ class P2PService {
       } catch (peerError) {
         console.warn('⚠️ PeerJS connection failed, enabling fallback mode:', peerError);
         this.enableLocalFallbackMode();
+        this.scheduleReconnect();
       }
       
     } catch (error) {
@@ -78,41 +201,85 @@ class P2PService {
   }
 
   /**
-   * Send vote to all connected peers
+   * Send a signed vote to all connected peers. The vote stays in the outbox
+   * and is resent to every new peer until one of them acknowledges it.
    */
-  async broadcastVote(pokemonName: string, userId: string): Promise<void> {
-    const voteMessage: P2PVoteMessage = {
-      type: 'VOTE',
-      payload: {
-        pokemonName,
-        userId,
-        voteId: this.generateMessageId(),
-        timestamp: Date.now()
-      },
-      timestamp: Date.now(),
-      peerId: this.state.peerId,
-      messageId: this.generateMessageId(),
-      battleId: this.state.roomId
-    };
+  async broadcastVote(vote: Vote): Promise<void> {
+    const voteMessage = this.createVoteMessage(vote);
 
-    // Vote broadcasted to peers
+    this.outbox.enqueue(vote, this.state.roomId);
+    this.eventHandlers.onVoteDeliveryChanged?.(vote.id, 'pending');
     
     // Only broadcast if we have actual P2P connections
     if (this.state.connectedPeers.size > 0) {
       await this.broadcastMessage(voteMessage);
       console.log(`✅ Vote broadcasted to ${this.state.connectedPeers.size} peer(s)`);
     } else {
-      console.log('⚠️ No P2P connections available - vote not broadcasted');
+      console.log('📮 No P2P connections available - vote queued until a peer joins');
     }
   }
 
+  /**
+   * Delivery status of this browser's queued votes, keyed by vote ID
+   */
+  getVoteDeliveryStatuses(): Record<string, VoteDeliveryStatus> {
+    return this.outbox.getStatuses();
+  }
+
+  /**
+   * Move everyone in the room to a new matchup
+   */
+  async announceBattleStart(
+    pokemonIndexes: number[],
+    sessionId: string,
+    votingMethod: VotingMethod = 'plurality'
+  ): Promise<void> {
+    const battleStart: P2PBattleStartMessage = {
+      type: 'BATTLE_START',
+      payload: {
+        battleId: this.generateRoomId(pokemonIndexes, sessionId, votingMethod),
+        pokemonIndexes,
+        pokemon1Index: pokemonIndexes[0],
+        pokemon2Index: pokemonIndexes[1],
+        sessionId,
+        ...(votingMethod !== 'plurality' && { votingMethod }),
+        startTime: this.clock.now()
+      },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId
+    };
+
+    console.log(`📣 Announcing new battle ${battleStart.payload.battleId} to ${this.state.connectedPeers.size} peer(s)`);
+    await this.broadcastMessage(battleStart);
+  }
+
+  /**
+   * Share the room's tournament bracket after it changes
+   */
+  async broadcastBracket(bracket: Bracket): Promise<void> {
+    const bracketUpdate: P2PBracketMessage = {
+      type: 'BRACKET_UPDATE',
+      payload: { bracket },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId,
+      ttl: this.config.gossipTtl
+    };
+
+    console.log(`🏆 Sharing bracket ${bracket.id} (${bracket.results.length} result(s)) with ${this.state.connectedPeers.size} peer(s)`);
+    await this.broadcastMessage(bracketUpdate);
+  }
+
   /**
    * Request full state sync from connected peers
    */
   async requestSync(): Promise<void> {
     const syncRequest: P2PSyncMessage = {
       type: 'SYNC_REQUEST',
-      payload: { votes: [] },
+      payload: this.createSyncPayload([]),
       timestamp: Date.now(),
       peerId: this.state.peerId,
       messageId: this.generateMessageId(),
@@ -126,7 +293,7 @@ class P2PService {
   /**
    * Send current votes to a specific peer (for newly connected peers)
    */
-  async sendStateToPeer(peerId: string, votes: any[]): Promise<void> {
+  async sendStateToPeer(peerId: string, votes: Vote[]): Promise<void> {
     const peerConnection = this.state.connectedPeers.get(peerId);
     if (!peerConnection) {
       console.warn(`Cannot send state to ${peerId}: peer not found`);
@@ -135,19 +302,15 @@ class P2PService {
 
     const syncResponse: P2PSyncMessage = {
       type: 'SYNC_RESPONSE',
-      payload: { votes },
+      payload: this.createSyncPayload(votes),
       timestamp: Date.now(),
       peerId: this.state.peerId,
       messageId: this.generateMessageId(),
-      battleId: this.state.roomId
+      battleId: this.state.roomId,
+      ttl: this.config.gossipTtl
     };
 
-    try {
-      peerConnection.connection.send(syncResponse);
-
-    } catch (error) {
-      console.error(`Failed to send state to peer ${peerId}:`, error);
-    }
+    this.sendToPeer(peerConnection, syncResponse);
   }
 
   /**
@@ -158,6 +321,14 @@ class P2PService {
     
     // Set flag to prevent reconnection attempts
     this.isIntentionalDisconnect = true;
+    this.sessionGeneration++;
+
+    // Let peers drop us right away rather than waiting for a close event
+    this.announceLeave('left');
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      window.removeEventListener('online', this.handleOnline);
+    }
     
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
@@ -169,17 +340,43 @@ class P2PService {
       this.discoveryTimeout = null;
     }
 
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.peerReconnects.forEach(reconnect => reconnect.timeout && clearTimeout(reconnect.timeout));
+    this.peerReconnects.clear();
+    this.isReconnecting = false;
+    this.pendingTransportReconnect = null;
+
+    // Leave the roster (and free the host slot if we held it)
+    if (this.rosterChannel) {
+      const rosterChannel = this.rosterChannel;
+      this.rosterChannel = null;
+      rosterChannel.close();
+    }
+    if (this.rosterHost) {
+      this.rosterHost.release();
+      this.rosterHost = null;
+    }
+
     // Close all peer connections
     this.state.connectedPeers.forEach((peerConn, peerId) => {
       peerConn.connection.close();
     });
     
-    if (this.peer) {
-      this.peer.destroy();
-      this.peer = null;
+    if (this.transport) {
+      this.transport.destroy();
+      this.transport = null;
     }
 
+    this.clearPendingAcks();
+    this.seenMessages.clear();
+    this.redirectedBy.clear();
     this.state.connectedPeers.clear();
+    this.state.incompatiblePeers.clear();
+    this.invalidMessageCounts.clear();
+    this.clock.reset();
     this.state.connectionAttempts = 0; // Reset connection attempts
     this.updateStatus('offline');
   }
@@ -191,6 +388,21 @@ class P2PService {
     return { ...this.state };
   }
 
+  /**
+   * Round-trip time and liveness of every connected peer
+   */
+  getPeerHealth(): PeerHealth[] {
+    const now = Date.now();
+    return Array.from(this.state.connectedPeers.values()).map(peerConn => ({
+      peerId: peerConn.id,
+      displayName: peerConn.displayName,
+      latency: peerConn.latency,
+      lastSeen: peerConn.lastSeen,
+      connectedAt: peerConn.connectedAt,
+      quality: classifyPeerQuality(peerConn.latency, peerConn.lastSeen, this.config.heartbeatInterval, now)
+    }));
+  }
+
   /**
    * Set event handlers
    */
@@ -206,6 +418,22 @@ class P2PService {
     this.eventHandlers.onPeerDisconnected = callback;
   }
 
+  onPeerJoined(callback: P2PEventHandlers['onPeerJoined']): void {
+    this.eventHandlers.onPeerJoined = callback;
+  }
+
+  onBattleStarted(callback: P2PEventHandlers['onBattleStarted']): void {
+    this.eventHandlers.onBattleStarted = callback;
+  }
+
+  onPeerIncompatible(callback: P2PEventHandlers['onPeerIncompatible']): void {
+    this.eventHandlers.onPeerIncompatible = callback;
+  }
+
+  onPeerHealthChanged(callback: P2PEventHandlers['onPeerHealthChanged']): void {
+    this.eventHandlers.onPeerHealthChanged = callback;
+  }
+
   onConnectionStatusChanged(callback: P2PEventHandlers['onConnectionStatusChanged']): void {
     this.eventHandlers.onConnectionStatusChanged = callback;
   }
@@ -218,142 +446,123 @@ class P2PService {
     this.eventHandlers.onSyncReceived = callback;
   }
 
+  onBracketReceived(callback: P2PEventHandlers['onBracketReceived']): void {
+    this.eventHandlers.onBracketReceived = callback;
+  }
+
+  onVoteDeliveryChanged(callback: P2PEventHandlers['onVoteDeliveryChanged']): void {
+    this.eventHandlers.onVoteDeliveryChanged = callback;
+  }
+
   /**
    * Set callback to get current state for sync requests
    */
-  setCurrentStateCallback(callback: () => any[]): void {
+  setCurrentStateCallback(callback: () => Vote[]): void {
     this.getCurrentStateCallback = callback;
   }
 
+  /**
+   * Set callback to get the battle's timing, sent along with every sync
+   */
+  setBattleStateCallback(callback: () => BattleTiming | null): void {
+    this.getBattleStateCallback = callback;
+  }
+
+  /**
+   * Set callback to get the room's tournament bracket, sent along with every sync
+   */
+  setBracketCallback(callback: () => Bracket | null): void {
+    this.getBracketCallback = callback;
+  }
+
+  /**
+   * Milliseconds since the epoch on the clock this room agrees on
+   */
+  getRoomTime(): number {
+    return this.clock.now();
+  }
+
   /**
    * Private implementation methods
    */
   private async createPeer(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      let attempts = 0;
-      const maxAttempts = 3;
+    let attempts = 0;
+    const maxAttempts = 3;
 
-      while (attempts < maxAttempts) {
-        try {
-          console.log(`🔄 Creating peer with ID: ${this.state.peerId} (attempt ${attempts + 1}/${maxAttempts})`);
-          
-          // Use PeerJS cloud with comprehensive STUN/TURN configuration for cross-network connectivity
-          const peerOptions: any = {
-            debug: 0, // Disable debug output for cleaner logs
-            config: {
-              iceServers: [
-                // Google STUN servers
-                { urls: 'stun:stun.l.google.com:19302' },
-                { urls: 'stun:stun1.l.google.com:19302' },
-                { urls: 'stun:stun2.l.google.com:19302' },
-                // Alternative STUN servers
-                { urls: 'stun:global.stun.twilio.com:3478' },
-                { urls: 'stun:stun.cloudflare.com:3478' },
-                // Free TURN servers (for NAT traversal)
-                {
-                  urls: 'turn:openrelay.metered.ca:80',
-                  username: 'openrelayproject',
-                  credential: 'openrelayproject'
-                },
-                {
-                  urls: 'turn:openrelay.metered.ca:443',
-                  username: 'openrelayproject',
-                  credential: 'openrelayproject'
-                }
-              ],
-              iceCandidatePoolSize: 10
-            },
-            // Increase connection timeout for cross-network scenarios
-            pingInterval: 5000
-          };
-
-          // Add custom PeerJS server configuration if provided
-          if (appConfig.peerjs.host) {
-            peerOptions.host = appConfig.peerjs.host;
-          }
-          if (appConfig.peerjs.port) {
-            peerOptions.port = appConfig.peerjs.port;
-          }
-          if (appConfig.peerjs.path) {
-            peerOptions.path = appConfig.peerjs.path;
-          }
-
-          this.peer = new Peer(this.state.peerId, peerOptions);
-
-          await this.setupPeerEvents(resolve, reject);
-          return; // Success, exit the retry loop
+    while (attempts < maxAttempts) {
+      try {
+        console.log(`🔄 Creating peer with ID: ${this.state.peerId} (attempt ${attempts + 1}/${maxAttempts})`);
 
-        } catch (error) {
-          attempts++;
-          console.warn(`⚠️ Peer creation attempt ${attempts} failed:`, error);
-          
-          if (attempts >= maxAttempts) {
-            reject(error);
-            return;
-          }
-          
-          // Generate a new peer ID for retry
-          this.state.peerId = this.generatePeerId(this.state.roomId);
-          console.log(`🔄 Retrying with new peer ID: ${this.state.peerId}`);
-          
-          // Wait before retry
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-    });
-  }
+        this.transport = this.transportFactory();
+        this.setupTransportEvents(this.transport);
 
-  private async setupPeerEvents(resolve: () => void, reject: (error: any) => void): Promise<void> {
-    if (!this.peer) return;
+        const id = await this.transport.open(this.state.peerId, 10000);
+        console.log(`🟢 Peer created with ID: ${id} (${this.transport.kind} transport)`);
+        this.state.peerId = id;
+        return; // Success, exit the retry loop
 
-    const timeout = setTimeout(() => {
-      reject(new Error('Peer creation timeout'));
-    }, 10000);
+      } catch (error) {
+        attempts++;
+        console.warn(`⚠️ Peer creation attempt ${attempts} failed:`, error);
 
-    this.peer.on('open', (id) => {
-      console.log(`🟢 Peer created with ID: ${id}`);
-      clearTimeout(timeout);
-      this.state.peerId = id;
-      resolve();
-    });
+        if (this.transport) {
+          this.transport.setHandlers({});
+          this.transport.destroy();
+          this.transport = null;
+        }
 
-    this.peer.on('connection', (conn) => {
-      console.log(`📞 Incoming connection from: ${conn.peer}`);
-      this.handleIncomingConnection(conn);
-    });
+        if (attempts >= maxAttempts) {
+          throw error;
+        }
 
-    this.peer.on('error', (error) => {
-      // console.error('❌ Peer error:', error);
-      clearTimeout(timeout);
-      this.handlePeerError(error);
-      reject(error);
-    });
+        // Generate a new peer ID for retry
+        this.state.peerId = this.generatePeerId(this.state.roomId);
+        console.log(`🔄 Retrying with new peer ID: ${this.state.peerId}`);
 
-    this.peer.on('close', () => {
-      console.log('🔌 Peer connection closed');
-      this.updateStatus('offline');
-    });
+        // Wait before retry
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  }
 
-    this.peer.on('disconnected', () => {
-      console.log('⚠️ Peer disconnected from broker');
-      this.attemptReconnection();
+  private setupTransportEvents(transport: VoteTransport): void {
+    transport.setHandlers({
+      onConnection: (channel) => {
+        console.log(`📞 Incoming connection from: ${channel.peer}`);
+        this.handleIncomingConnection(channel);
+      },
+      onError: (error) => {
+        this.handlePeerError(error);
+      },
+      onClose: () => {
+        console.log('🔌 Peer connection closed');
+        this.updateStatus('offline');
+      },
+      onDisconnected: () => {
+        console.log('⚠️ Peer disconnected from broker');
+        this.scheduleReconnect();
+      },
+      onReconnected: () => {
+        this.pendingTransportReconnect?.();
+      }
     });
   }
 
   private async discoverPeers(): Promise<void> {
     console.log(`🔍 Discovering peers in room: ${this.state.roomId}...`);
-    
-    const discoveryPromises: Promise<void>[] = [];
-    
-    // Try to connect to all possible peer IDs using the same format we generate
-    for (let i = 1; i <= 100; i++) {
-      const candidatePeerId = `${this.state.roomId}_${i}`;
-      
-      // Don't try to connect to ourselves
-      if (candidatePeerId !== this.state.peerId) {
-        discoveryPromises.push(this.attemptConnection(candidatePeerId));
-      }
+
+    // A self-hosted broker lists the room directly; otherwise use the roster host
+    const listedMembers = await this.transport?.listRoomPeers(this.state.roomId);
+    const members = listedMembers ?? await this.fetchRoster();
+    this.redirectedBy.clear();
+
+    // Both lists are in join order, so long-lived peers come first
+    const candidates = members.filter(memberId => memberId !== this.state.peerId);
+    const targets = this.connectionManager.selectDialTargets(candidates, this.state.connectedPeers);
+    if (targets.length < candidates.length) {
+      console.log(`🚦 Dialling ${targets.length} of ${candidates.length} member(s) - gossip covers the rest`);
     }
+    const discoveryPromises = targets.map(memberId => this.attemptConnection(memberId));
 
     // Extended discovery timeout for cross-network connections
     const extendedTimeout = 10000; // 10 seconds
@@ -374,56 +583,176 @@ class P2PService {
     }
   }
 
-  private async attemptConnection(peerId: string): Promise<void> {
+  /**
+   * Become the room's roster host, or join the existing one and get the member list
+   */
+  private async fetchRoster(): Promise<string[]> {
+    // Still hosting from before a reconnect - our own list is the roster
+    if (this.rosterHost) {
+      return this.rosterHost.getMembers();
+    }
+
+    // Replace any channel to a previous host without triggering another election
+    if (this.rosterChannel) {
+      const rosterChannel = this.rosterChannel;
+      this.rosterChannel = null;
+      rosterChannel.close();
+    }
+
+    const slotId = getRosterSlotId(this.state.roomId);
+    const rosterHost = new RosterHost(slotId, this.state.peerId, this.transportFactory, this.roomProof);
+
     try {
-      if (!this.peer || this.state.connectedPeers.has(peerId)) {
+      if (await rosterHost.claim(this.config.discoveryTimeout)) {
+        this.rosterHost = rosterHost;
+        console.log(`👑 Hosting the roster for room ${this.state.roomId}`);
+        return [];
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not claim the roster host slot:', error);
+    }
+
+    return this.joinRoster(slotId);
+  }
+
+  private joinRoster(slotId: string): Promise<string[]> {
+    return new Promise((resolve) => {
+      if (!this.transport) {
+        resolve([]);
         return;
       }
 
-      const conn = this.peer.connect(peerId, {
-        reliable: true,
-        serialization: 'json'
+      const channel = this.transport.connect(slotId, this.getConnectOptions());
+      const timeout = setTimeout(() => {
+        console.warn('⚠️ Roster host did not answer');
+        resolve([]);
+      }, this.config.discoveryTimeout);
+
+      channel.on('open', () => {
+        const joinMessage: P2PPeerJoinMessage = {
+          type: 'PEER_JOIN',
+          payload: { peerId: this.state.peerId },
+          timestamp: Date.now(),
+          peerId: this.state.peerId,
+          messageId: this.generateMessageId(),
+          battleId: this.state.roomId
+        };
+        channel.send(joinMessage);
+      });
+
+      channel.on('data', (data) => {
+        const validation = validateP2PMessage(data);
+        if (!validation.valid || validation.message.type !== 'PEER_JOIN') {
+          return;
+        }
+
+        const message = validation.message as P2PPeerJoinMessage;
+        if (message.payload.members) {
+          clearTimeout(timeout);
+          this.rosterChannel = channel;
+          console.log(`📋 Roster lists ${message.payload.members.length} member(s)`);
+          resolve(message.payload.members);
+        }
+      });
+
+      channel.on('close', () => {
+        clearTimeout(timeout);
+        resolve([]);
+
+        if (this.rosterChannel === channel) {
+          this.rosterChannel = null;
+          this.handleRosterHostLost();
+        }
+      });
+
+      channel.on('error', () => {
+        clearTimeout(timeout);
+        resolve([]);
       });
+    });
+  }
+
+  private handleRosterHostLost(): void {
+    // A reconnect in progress rediscovers the room itself
+    if (this.isIntentionalDisconnect || this.isReconnecting) {
+      return;
+    }
+
+    // Jitter so the remaining members don't all race for the host slot at once
+    const delay = Math.random() * 1500;
+    console.log('👑 Roster host left - electing a new one...');
+
+    this.discoveryTimeout = setTimeout(() => {
+      this.discoveryTimeout = null;
+      this.discoverPeers();
+    }, delay);
+  }
 
-      if (conn) {
-        await this.setupConnection(conn);
+  private async attemptConnection(peerId: string): Promise<void> {
+    try {
+      if (!this.transport || this.state.connectedPeers.has(peerId)) {
+        return;
       }
+
+      const conn = this.transport.connect(peerId, this.getConnectOptions());
+      await this.setupConnection(conn);
     } catch (error) {
       // Silent fail for discovery attempts
     }
   }
 
-  private async setupConnection(conn: DataConnection): Promise<void> {
+  private async setupConnection(conn: VoteChannel): Promise<void> {
     return new Promise((resolve, reject) => {
+      let isOpen = false;
+      let isHandshakeComplete = false;
+
+      // Covers both opening the channel and receiving the peer's HELLO
       const timeout = setTimeout(() => {
+        if (isOpen) {
+          // Builds from before the handshake never send a HELLO
+          this.markPeerIncompatible(conn, null);
+        }
         reject(new Error('Connection timeout'));
       }, this.config.connectionTimeout);
 
       conn.on('open', () => {
-        clearTimeout(timeout);
-        
-        const peerConnection: PeerConnection = {
-          id: conn.peer,
-          connection: conn,
-          connectedAt: Date.now(),
-          lastSeen: Date.now(),
-          isReliable: conn.reliable
-        };
-
-        this.state.connectedPeers.set(conn.peer, peerConnection);
-        
-        console.log(`✅ Connected to peer: ${conn.peer}`);
-        this.eventHandlers.onPeerConnected?.(conn.peer);
-        
-        resolve();
+        isOpen = true;
+        this.sendHello(conn);
       });
 
       conn.on('data', (data) => {
-        this.handleMessage(data as P2PMessage, conn.peer);
+        if (isHandshakeComplete) {
+          this.handleMessage(data, conn.peer);
+          return;
+        }
+
+        clearTimeout(timeout);
+
+        // A full peer answers with somewhere else to go instead of a HELLO
+        const redirect = this.readRedirect(data);
+        if (redirect) {
+          conn.close();
+          this.followRedirect(redirect, conn.peer);
+          reject(new Error(`Peer ${conn.peer} is full`));
+          return;
+        }
+
+        const hello = this.readHello(data);
+        const negotiation = negotiateProtocol(hello);
+
+        if (!negotiation.compatible) {
+          this.markPeerIncompatible(conn, hello);
+          reject(new Error(`Peer ${conn.peer} speaks incompatible protocol v${negotiation.protocolVersion}`));
+          return;
+        }
+
+        isHandshakeComplete = true;
+        this.registerPeer(conn, negotiation, hello);
+        resolve();
       });
 
       conn.on('close', () => {
-        this.handlePeerDisconnection(conn.peer);
+        this.handlePeerDisconnection(conn);
       });
 
       conn.on('error', (error) => {
@@ -434,146 +763,985 @@ class P2PService {
     });
   }
 
-  private handleIncomingConnection(conn: DataConnection): void {
-    // Only accept connections from our room
-    if (!conn.peer.startsWith(this.state.roomId.split('_')[0])) {
-      console.log(`🚫 Rejecting connection from different room: ${conn.peer}`);
-      conn.close();
-      return;
-    }
+  private sendHello(conn: VoteChannel): void {
+    const hello: P2PHelloMessage = {
+      type: 'HELLO',
+      payload: {
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+        capabilities: PROTOCOL_CAPABILITIES,
+        appVersion: appConfig.version
+      },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId
+    };
 
-    this.setupConnection(conn).catch(error => {
-      console.error('❌ Failed to setup incoming connection:', error);
-    });
+    try {
+      conn.send(hello);
+    } catch (error) {
+      console.error(`❌ Failed to send HELLO to ${conn.peer}:`, error);
+    }
   }
 
-  private handleMessage(message: P2PMessage, fromPeer: string): void {
-    // Update last seen time
-    const peerConn = this.state.connectedPeers.get(fromPeer);
-    if (peerConn) {
-      peerConn.lastSeen = Date.now();
+  /**
+   * The first message on a channel must be a HELLO - anything else comes from a legacy build
+   */
+  private readHello(data: unknown): P2PHelloMessage['payload'] | null {
+    const validation = validateP2PMessage(data);
+    if (validation.valid && validation.message.type === 'HELLO') {
+      return (validation.message as P2PHelloMessage).payload;
     }
+    return null;
+  }
 
-    // Message received and processed (log only for debugging)
-
-    switch (message.type) {
-      case 'VOTE':
-        this.eventHandlers.onVoteReceived?.(message.payload);
-        break;
-      case 'SYNC_REQUEST':
-        this.handleSyncRequest(message as P2PSyncMessage, fromPeer);
-        break;
-      case 'SYNC_RESPONSE':
-        this.eventHandlers.onSyncReceived?.(message.payload);
-        break;
-      case 'HEARTBEAT':
-        // Heartbeat received, peer is alive
-        break;
+  private readRedirect(data: unknown): P2PRedirectMessage['payload'] | null {
+    const validation = validateP2PMessage(data);
+    if (validation.valid && validation.message.type === 'REDIRECT') {
+      return (validation.message as P2PRedirectMessage).payload;
     }
+    return null;
   }
 
-  private async handleSyncRequest(message: P2PSyncMessage, fromPeer: string): Promise<void> {
-    // Send our current state to the requesting peer
-    const peerConn = this.state.connectedPeers.get(fromPeer);
-    if (peerConn) {
-      // Get current votes from the callback if available
-      const currentVotes = this.getCurrentStateCallback ? this.getCurrentStateCallback() : [];
-      
-      const syncResponse: P2PSyncMessage = {
-        type: 'SYNC_RESPONSE',
-        payload: { votes: currentVotes },
-        timestamp: Date.now(),
-        peerId: this.state.peerId,
-        messageId: this.generateMessageId(),
-        battleId: this.state.roomId
-      };
+  private registerPeer(
+    conn: VoteChannel,
+    negotiation: ProtocolNegotiation,
+    hello: P2PHelloMessage['payload'] | null
+  ): void {
+    // Both sides may have dialled at once, or several newcomers raced in.
+    // At the cap, a newcomer that got this far may replace our worst peer.
+    if (
+      !this.state.connectedPeers.has(conn.peer) &&
+      !this.connectionManager.hasCapacity(this.state.connectedPeers) &&
+      !this.evictForNewcomer(conn.peer)
+    ) {
+      this.rejectWithRedirect(conn, hello?.capabilities);
+      return;
+    }
 
-      peerConn.connection.send(syncResponse);
+    const peerConnection: PeerConnection = {
+      id: conn.peer,
+      connection: conn,
+      connectedAt: Date.now(),
+      lastSeen: Date.now(),
+      isReliable: conn.reliable,
+      protocolVersion: negotiation.protocolVersion,
+      capabilities: negotiation.capabilities,
+      appVersion: hello?.appVersion
+    };
+
+    this.state.connectedPeers.set(conn.peer, peerConnection);
+    this.state.incompatiblePeers.delete(conn.peer);
+    this.cancelPeerReconnect(conn.peer);
 
+    if (negotiation.protocolVersion < PROTOCOL_VERSION) {
+      console.log(`⬇️ Downgraded to protocol v${negotiation.protocolVersion} with ${conn.peer}`);
     }
-  }
+    console.log(`✅ Connected to peer: ${conn.peer}`);
+    this.eventHandlers.onPeerConnected?.(conn.peer);
 
-  private handlePeerDisconnection(peerId: string): void {
-    console.log(`🔌 Peer disconnected: ${peerId}`);
-    this.state.connectedPeers.delete(peerId);
-    this.eventHandlers.onPeerDisconnected?.(peerId);
+    this.sendJoinAnnouncement(peerConnection);
+    this.flushOutbox(peerConnection);
+    // Measure latency straight away rather than waiting for the first heartbeat
+    this.sendPing(peerConnection);
   }
 
-  private async broadcastMessage(message: P2PMessage): Promise<void> {
-    const promises: Promise<void>[] = [];
+  /**
+   * Resend every unacknowledged vote for this room to a newly connected peer
+   */
+  private flushOutbox(peerConn: PeerConnection): void {
+    const pending = this.outbox.getPending(this.state.roomId);
+    if (pending.length === 0) {
+      return;
+    }
 
-    this.state.connectedPeers.forEach((peerConn, peerId) => {
-      promises.push(
-        new Promise((resolve) => {
-          try {
-            peerConn.connection.send(message);
-            resolve();
-          } catch (error) {
-            console.error(`❌ Failed to send message to ${peerId}:`, error);
-            resolve(); // Don't fail the whole broadcast
-          }
-        })
-      );
-    });
+    console.log(`📮 Sending ${pending.length} queued vote(s) to ${peerConn.id}`);
+    pending.forEach(vote => this.sendToPeer(peerConn, this.createVoteMessage(vote)));
+  }
 
-    await Promise.allSettled(promises);
+  private createVoteMessage(vote: Vote): P2PVoteMessage {
+    return {
+      type: vote.retracted ? 'VOTE_RETRACT' : vote.supersedes ? 'VOTE_CHANGE' : 'VOTE',
+      payload: voteToMessagePayload(vote),
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId,
+      ttl: this.config.gossipTtl
+    };
   }
 
-  private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(() => {
-      const heartbeat: P2PMessage = {
-        type: 'HEARTBEAT',
-        payload: {},
-        timestamp: Date.now(),
+  private sendJoinAnnouncement(peerConn: PeerConnection): void {
+    const joinMessage: P2PPeerJoinMessage = {
+      type: 'PEER_JOIN',
+      payload: {
         peerId: this.state.peerId,
-        messageId: this.generateMessageId()
-      };
+        displayName: getDisplayName(),
+        joinedAt: Date.now()
+      },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId
+    };
 
-      this.broadcastMessage(heartbeat);
-    }, this.config.heartbeatInterval);
+    this.sendToPeer(peerConn, joinMessage);
   }
 
-  private async attemptReconnection(): Promise<void> {
-    // Don't reconnect if this was an intentional disconnect
-    if (this.isIntentionalDisconnect) {
-      console.log('⏹️ Skipping reconnection - intentional disconnect');
+  private announceLeave(reason: string): void {
+    if (!this.state.peerId) {
       return;
     }
 
-    if (this.state.connectionAttempts >= this.config.reconnectAttempts) {
-      console.error('❌ Max reconnection attempts reached');
-      this.updateStatus('error');
-      return;
+    const leaveMessage: P2PPeerLeaveMessage = {
+      type: 'PEER_LEAVE',
+      payload: { peerId: this.state.peerId, reason },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId
+    };
+
+    // Sends are queued synchronously, so this completes before channels close
+    this.broadcastMessage(leaveMessage);
+    try {
+      this.rosterChannel?.send(leaveMessage);
+    } catch (error) {
+      // Roster host already gone
     }
+  }
 
-    this.state.connectionAttempts++;
-    console.log(`🔄 Attempting reconnection (${this.state.connectionAttempts}/${this.config.reconnectAttempts})...`);
+  private handlePageHide = (): void => {
+    this.announceLeave('closed');
+  };
+
+  private markPeerIncompatible(conn: VoteChannel, hello: P2PHelloMessage['payload'] | null): void {
+    const incompatiblePeer = {
+      id: conn.peer,
+      protocolVersion: hello ? hello.protocolVersion : LEGACY_PROTOCOL_VERSION,
+      appVersion: hello?.appVersion,
+      detectedAt: Date.now()
+    };
+
+    console.warn(
+      `🚫 Peer ${conn.peer} runs protocol v${incompatiblePeer.protocolVersion} ` +
+      `(we support v${MIN_PROTOCOL_VERSION}-v${PROTOCOL_VERSION}) - closing channel`
+    );
+
+    this.state.incompatiblePeers.set(conn.peer, incompatiblePeer);
+    conn.close();
+    this.eventHandlers.onPeerIncompatible?.(incompatiblePeer);
+  }
+
+  private handleIncomingConnection(conn: VoteChannel): void {
+    // Only accept connections from our room
+    if (!isPeerInRoom(conn.peer, this.state.roomId)) {
+      console.log(`🚫 Rejecting connection from different room: ${conn.peer}`);
+      conn.close();
+      return;
+    }
+
+    // Private rooms only let in peers holding the invite code
+    if (!hasRoomProof(conn.metadata, this.roomProof)) {
+      console.log(`🔒 Rejecting connection without the room's invite: ${conn.peer}`);
+      conn.close();
+      return;
+    }
+
+    // A newcomer that could replace our worst peer gets a handshake first -
+    // registerPeer only evicts once it has proved compatible, so one that
+    // stalls or speaks the wrong protocol costs us nothing
+    if (
+      !this.connectionManager.hasCapacity(this.state.connectedPeers) &&
+      !this.connectionManager.selectPeerToEvict(this.state.connectedPeers)
+    ) {
+      // Wait for their HELLO so we know whether they understand REDIRECT
+      let isAnswered = false;
+      const timeout = setTimeout(() => conn.close(), this.config.connectionTimeout);
+      conn.on('data', (data) => {
+        if (isAnswered) return;
+        isAnswered = true;
+        clearTimeout(timeout);
+        this.rejectWithRedirect(conn, this.readHello(data)?.capabilities);
+      });
+      return;
+    }
+
+    this.setupConnection(conn).catch(error => {
+      console.warn('⚠️ Failed to setup incoming connection:', error);
+    });
+  }
+
+  /**
+   * Drop our worst peer to make room for a newcomer, if the newcomer is likely
+   * the better channel (see ConnectionManager.selectPeerToEvict)
+   */
+  private evictForNewcomer(newcomerId: string): boolean {
+    const evicted = this.connectionManager.selectPeerToEvict(this.state.connectedPeers);
+    if (!evicted) {
+      return false;
+    }
+
+    console.log(`🚦 Dropping ${evicted.id} (${evicted.latency}ms) to make room for ${newcomerId}`);
+    // Redirected rather than dropped, so it finds other members instead of redialling us
+    this.handlePeerDisconnection(evicted.connection, false);
+    this.rejectWithRedirect(evicted.connection, evicted.capabilities);
+    return true;
+  }
+
+  /**
+   * Turn a peer away because we're at maxConnections, pointing it at other members
+   */
+  private rejectWithRedirect(conn: VoteChannel, capabilities: string[] | undefined): void {
+    console.log(`🚦 At ${this.config.maxConnections} connections - redirecting ${conn.peer}`);
+
+    // Older builds would count REDIRECT as an invalid message - they just see the channel close
+    if (capabilities?.includes('redirect')) {
+      const redirect: P2PRedirectMessage = {
+        type: 'REDIRECT',
+        payload: {
+          peers: this.connectionManager.getRedirectTargets(this.state.connectedPeers, conn.peer),
+          reason: 'full'
+        },
+        timestamp: Date.now(),
+        peerId: this.state.peerId,
+        messageId: this.generateMessageId(),
+        battleId: this.state.roomId
+      };
 
-    setTimeout(async () => {
       try {
-        if (this.peer && !this.isIntentionalDisconnect) {
-          this.peer.reconnect();
+        conn.send(redirect);
+      } catch (error) {
+        console.error(`❌ Failed to redirect ${conn.peer}:`, error);
+      }
+    }
+
+    setTimeout(() => conn.close(), REDIRECT_CLOSE_DELAY);
+  }
+
+  private handleRedirect(message: P2PRedirectMessage, fromPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    if (peerConn) {
+      // Being turned away is not a dropped connection - don't redial
+      this.handlePeerDisconnection(peerConn.connection, false);
+      peerConn.connection.close();
+    }
+    this.followRedirect(message.payload, fromPeer);
+  }
+
+  /**
+   * Dial the members a full peer suggested, as far as our own cap allows
+   */
+  private followRedirect(redirect: P2PRedirectMessage['payload'], fromPeer: string): void {
+    this.redirectedBy.add(fromPeer);
+
+    const candidates = redirect.peers.filter(peerId =>
+      peerId !== this.state.peerId &&
+      isPeerInRoom(peerId, this.state.roomId) &&
+      !this.redirectedBy.has(peerId)
+    );
+    const targets = this.connectionManager.selectDialTargets(candidates, this.state.connectedPeers);
+
+    console.log(`🚦 ${fromPeer} is full - trying ${targets.length} other member(s)`);
+    targets.forEach(peerId => this.attemptConnection(peerId));
+  }
+
+  private handleMessage(data: unknown, fromPeer: string): void {
+    // Update last seen time
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    if (peerConn) {
+      peerConn.lastSeen = Date.now();
+    }
+
+    // Drop anything that doesn't match its declared schema before it reaches a handler
+    const validation = validateP2PMessage(data);
+    if (!validation.valid) {
+      this.recordInvalidMessage(fromPeer, validation.error);
+      return;
+    }
+    const message = validation.message;
+
+    if (RELIABLE_MESSAGE_TYPES.includes(message.type)) {
+      // Ack duplicates too - the first ACK may be the thing that got lost
+      this.sendAck(message, fromPeer);
+      if (!this.seenMessages.add(message.messageId)) {
+        return;
+      }
+    }
+
+    // Message received and processed (log only for debugging)
+
+    switch (message.type) {
+      case 'VOTE':
+      case 'VOTE_CHANGE':
+      case 'VOTE_RETRACT':
+        this.handleVoteMessage(message as P2PVoteMessage, fromPeer);
+        break;
+      case 'VOTE_ACK':
+        this.handleVoteAck(message as P2PVoteAckMessage, fromPeer);
+        break;
+      case 'ACK':
+        this.handleAck(message as P2PAckMessage, fromPeer);
+        break;
+      case 'REDIRECT':
+        this.handleRedirect(message as P2PRedirectMessage, fromPeer);
+        break;
+      case 'SYNC_REQUEST':
+        this.handleSyncRequest(message as P2PSyncMessage, fromPeer);
+        break;
+      case 'SYNC_RESPONSE':
+        this.handleSyncResponse(message as P2PSyncMessage, fromPeer);
+        break;
+      case 'HEARTBEAT':
+        this.handleHeartbeat(message as P2PHeartbeatMessage, fromPeer);
+        break;
+      case 'PEER_JOIN':
+        this.handlePeerJoin(message as P2PPeerJoinMessage, fromPeer);
+        break;
+      case 'PEER_LEAVE':
+        this.handlePeerLeave(message as P2PPeerLeaveMessage, fromPeer);
+        break;
+      case 'BATTLE_START':
+        this.handleBattleStart(message as P2PBattleStartMessage, fromPeer);
+        break;
+      case 'BRACKET_UPDATE':
+        this.handleBracketUpdate(message as P2PBracketMessage, fromPeer);
+        break;
+    }
+  }
+
+  private handlePeerJoin(message: P2PPeerJoinMessage, fromPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    // Peers can only announce themselves
+    if (!peerConn || message.payload.peerId !== fromPeer) {
+      return;
+    }
+
+    peerConn.displayName = message.payload.displayName;
+    console.log(`👋 ${peerConn.displayName || fromPeer} joined the room`);
+    this.eventHandlers.onPeerJoined?.(fromPeer, peerConn.displayName);
+  }
+
+  private handlePeerLeave(message: P2PPeerLeaveMessage, fromPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    // Peers can only announce their own departure
+    if (!peerConn || message.payload.peerId !== fromPeer) {
+      return;
+    }
+
+    console.log(`👋 ${peerConn.displayName || fromPeer} left the room (${message.payload.reason || 'no reason'})`);
+    this.handlePeerDisconnection(peerConn.connection, false);
+    peerConn.connection.close();
+  }
+
+  private handleBattleStart(message: P2PBattleStartMessage, fromPeer: string): void {
+    if (message.payload.battleId === this.state.roomId) {
+      return;
+    }
+
+    console.log(`📣 ${fromPeer} moved the room to ${message.payload.battleId}`);
+    this.eventHandlers.onBattleStarted?.(battleAnnouncementFromPayload(message.payload));
+  }
+
+  private handleBracketUpdate(message: P2PBracketMessage, fromPeer: string): void {
+    if (this.receiveBracket(message.payload.bracket, fromPeer)) {
+      this.forwardGossip(message, fromPeer);
+    }
+  }
+
+  /**
+   * Hand a peer's bracket to the app if it is well formed
+   */
+  private receiveBracket(bracket: Bracket | undefined, fromPeer: string): boolean {
+    if (!bracket) {
+      return false;
+    }
+    if (!isValidBracket(bracket)) {
+      console.warn(`🚫 Ignored a malformed tournament bracket from ${fromPeer}`);
+      return false;
+    }
+
+    this.eventHandlers.onBracketReceived?.(bracket);
+    return true;
+  }
+
+  private async handleVoteMessage(message: P2PVoteMessage, fromPeer: string): Promise<void> {
+    const vote = voteFromMessagePayload(message.payload);
+
+    // Only signed votes whose signer owns the userId reach the battle state
+    if (!(await this.identity.verifyVote(vote))) {
+      console.warn(`🚫 Dropping vote ${vote.id} from ${fromPeer}: signature check failed`);
+      return;
+    }
+
+    this.eventHandlers.onVoteReceived?.(message.payload);
+    this.sendVoteAck(vote.id, fromPeer);
+    this.forwardGossip(message, fromPeer);
+  }
+
+  private sendVoteAck(voteId: string, toPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(toPeer);
+    // Older builds would count an unknown message type as invalid
+    if (!peerConn || !peerConn.capabilities.includes('vote-ack')) {
+      return;
+    }
+
+    const ack: P2PVoteAckMessage = {
+      type: 'VOTE_ACK',
+      payload: { voteId },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId(),
+      battleId: this.state.roomId
+    };
+
+    this.sendToPeer(peerConn, ack);
+  }
+
+  private handleVoteAck(message: P2PVoteAckMessage, fromPeer: string): void {
+    this.markVoteDelivered(message.payload.voteId, fromPeer);
+  }
+
+  private markVoteDelivered(voteId: string, peerId: string): void {
+    if (this.outbox.markDelivered(voteId, peerId)) {
+      console.log(`📬 Vote ${voteId} delivered to ${peerId}`);
+      this.eventHandlers.onVoteDeliveryChanged?.(voteId, 'delivered');
+    }
+  }
+
+  private async handleSyncResponse(message: P2PSyncMessage, fromPeer: string): Promise<void> {
+    const votes = message.payload.votes || [];
+    const checks = await Promise.all(votes.map(vote => this.identity.verifyVote(vote)));
+    const verifiedVotes = votes.filter((_, index) => checks[index]);
+
+    if (verifiedVotes.length < votes.length) {
+      console.warn(`🚫 Dropped ${votes.length - verifiedVotes.length} unverifiable vote(s) from ${fromPeer}'s sync`);
+    }
+
+    // A peer that already holds one of our queued votes has received it
+    const pending = new Set(this.outbox.getPending(this.state.roomId).map(vote => vote.id));
+    verifiedVotes
+      .filter(vote => pending.has(vote.id))
+      .forEach(vote => this.markVoteDelivered(vote.id, fromPeer));
+
+    const { battleState } = message.payload;
+    this.eventHandlers.onSyncReceived?.(battleState
+      ? { votes: verifiedVotes, battleState: battleTimingFromPayload(battleState) }
+      : { votes: verifiedVotes });
+    this.receiveBracket(message.payload.bracket, fromPeer);
+
+    if (verifiedVotes.length > 0) {
+      // Pass on only what we could verify ourselves
+      this.forwardGossip({ ...message, payload: { ...message.payload, votes: verifiedVotes } }, fromPeer);
+    }
+  }
+
+  /**
+   * Relay a message to every other peer, so it reaches members of the room we
+   * are connected to but its origin is not. The seen-set stops it looping.
+   */
+  private forwardGossip(message: P2PMessage, fromPeer: string): void {
+    if (!GOSSIP_MESSAGE_TYPES.includes(message.type)) {
+      return;
+    }
+
+    // Never trust a peer to hand out more hops than we would
+    const ttl = Math.min(message.ttl ?? 0, this.config.gossipTtl) - 1;
+    if (ttl <= 0) {
+      return;
+    }
+
+    const forwarded: P2PMessage = { ...message, ttl };
+    let forwardedTo = 0;
+    this.state.connectedPeers.forEach(peerConn => {
+      if (peerConn.id === fromPeer || peerConn.id === message.peerId) return;
+      this.sendToPeer(peerConn, forwarded);
+      forwardedTo++;
+    });
+
+    if (forwardedTo > 0) {
+      console.log(`📡 Gossiped ${message.type} from ${message.peerId} to ${forwardedTo} peer(s) (ttl ${ttl})`);
+    }
+  }
+
+  private async handleSyncRequest(message: P2PSyncMessage, fromPeer: string): Promise<void> {
+    // The requester's battle timing may start earlier than ours
+    if (message.payload.battleState) {
+      this.eventHandlers.onSyncReceived?.({ votes: [], battleState: battleTimingFromPayload(message.payload.battleState) });
+    }
+    this.receiveBracket(message.payload.bracket, fromPeer);
+
+    // Send our current state to the requesting peer
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    if (peerConn) {
+      // Get current votes from the callback if available
+      const currentVotes = this.getCurrentStateCallback ? this.getCurrentStateCallback() : [];
+      
+      const syncResponse: P2PSyncMessage = {
+        type: 'SYNC_RESPONSE',
+        payload: this.createSyncPayload(currentVotes),
+        timestamp: Date.now(),
+        peerId: this.state.peerId,
+        messageId: this.generateMessageId(),
+        battleId: this.state.roomId,
+        ttl: this.config.gossipTtl
+      };
+
+      this.sendToPeer(peerConn, syncResponse);
+    }
+  }
+
+  private createSyncPayload(votes: Vote[]): P2PSyncMessage['payload'] {
+    const battleState = this.getBattleStateCallback?.();
+    const bracket = this.getBracketCallback?.();
+    return {
+      votes,
+      ...(battleState && { battleState: battleTimingToPayload(battleState) }),
+      ...(bracket && { bracket })
+    };
+  }
+
+  private recordInvalidMessage(fromPeer: string, error: string): void {
+    const count = (this.invalidMessageCounts.get(fromPeer) || 0) + 1;
+    this.invalidMessageCounts.set(fromPeer, count);
+    console.warn(`🚫 Dropped invalid message from ${fromPeer} (${count}): ${error}`);
+
+    // Report repeat offenders once, when they cross the threshold
+    if (count === this.config.maxInvalidMessages) {
+      this.eventHandlers.onError?.(`Peer ${fromPeer} keeps sending invalid messages (${count} dropped)`);
+    }
+  }
+
+  private handleHeartbeat(message: P2PHeartbeatMessage, fromPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(fromPeer);
+    if (!peerConn) return;
+
+    if (message.payload.kind === 'ping') {
+      // Echo the sender's clock so it can measure round-trip time, and add
+      // ours so it can estimate the offset between the two
+      this.sendHeartbeat(peerConn, 'pong', message.payload.sentAt, this.clock.getLocalTime());
+      return;
+    }
+
+    const receivedAt = this.clock.getLocalTime();
+    const rtt = receivedAt - message.payload.sentAt;
+    if (rtt < 0) return;
+
+    if (message.payload.peerTime !== undefined) {
+      this.clock.recordSample(fromPeer, message.payload.sentAt, message.payload.peerTime, receivedAt);
+    }
+
+    // Smooth out jitter so the quality indicator doesn't flicker
+    peerConn.latency = peerConn.latency === undefined
+      ? rtt
+      : Math.round(peerConn.latency * (1 - LATENCY_SMOOTHING) + rtt * LATENCY_SMOOTHING);
+    this.eventHandlers.onPeerHealthChanged?.(this.getPeerHealth());
+  }
+
+  private sendPing(peerConn: PeerConnection): void {
+    this.sendHeartbeat(peerConn, 'ping', this.clock.getLocalTime());
+  }
+
+  private sendHeartbeat(
+    peerConn: PeerConnection,
+    kind: P2PHeartbeatMessage['payload']['kind'],
+    sentAt: number,
+    peerTime?: number
+  ): void {
+    const heartbeat: P2PHeartbeatMessage = {
+      type: 'HEARTBEAT',
+      payload: peerTime === undefined ? { kind, sentAt } : { kind, sentAt, peerTime },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId()
+    };
+
+    try {
+      peerConn.connection.send(heartbeat);
+    } catch (error) {
+      console.error(`❌ Failed to send heartbeat to ${peerConn.id}:`, error);
+    }
+  }
+
+  /**
+   * Ping every peer and evict the ones that have gone quiet
+   */
+  private checkPeerLiveness(): void {
+    const now = Date.now();
+    const staleAfter = this.config.heartbeatInterval * this.config.staleAfterHeartbeats;
+
+    this.state.connectedPeers.forEach(peerConn => {
+      if (now - peerConn.lastSeen > staleAfter) {
+        console.warn(`💤 Evicting ${peerConn.id}: silent for ${Math.round((now - peerConn.lastSeen) / 1000)}s`);
+        this.handlePeerDisconnection(peerConn.connection);
+        peerConn.connection.close();
+        return;
+      }
+
+      this.sendPing(peerConn);
+    });
+
+    this.eventHandlers.onPeerHealthChanged?.(this.getPeerHealth());
+  }
+
+  /**
+   * Drop a peer's channel. Peers that vanish without a PEER_LEAVE are redialled.
+   */
+  private handlePeerDisconnection(conn: VoteChannel, shouldReconnect: boolean = true): void {
+    // Ignore channels that never finished the handshake or were superseded
+    if (this.state.connectedPeers.get(conn.peer)?.connection !== conn) {
+      return;
+    }
+
+    console.log(`🔌 Peer disconnected: ${conn.peer}`);
+    this.state.connectedPeers.delete(conn.peer);
+    this.clock.forgetPeer(conn.peer);
+    this.eventHandlers.onPeerDisconnected?.(conn.peer);
+
+    if (shouldReconnect) {
+      this.schedulePeerReconnect(conn.peer);
+    } else {
+      this.clearPendingAcks(conn.peer);
+    }
+  }
+
+  private schedulePeerReconnect(peerId: string): void {
+    // Only one side redials, so the pair doesn't end up with two channels
+    if (this.isIntentionalDisconnect || this.state.peerId > peerId) {
+      return;
+    }
+
+    const reconnect = this.peerReconnects.get(peerId) || { attempts: 0, timeout: null };
+    if (reconnect.timeout) {
+      return;
+    }
+
+    if (reconnect.attempts >= this.config.reconnectAttempts) {
+      console.log(`⏹️ Giving up on ${peerId} - it will rejoin through the roster`);
+      this.peerReconnects.delete(peerId);
+      return;
+    }
+
+    reconnect.attempts++;
+    const delay = getBackoffDelay(reconnect.attempts, this.config.reconnectDelay, this.config.maxReconnectDelay);
+    console.log(`🔄 Redialling ${peerId} in ${delay}ms (${reconnect.attempts}/${this.config.reconnectAttempts})`);
+
+    reconnect.timeout = setTimeout(async () => {
+      reconnect.timeout = null;
+      // The signalling reconnect redials everyone anyway
+      if (this.isReconnecting) {
+        return;
+      }
+
+      await this.attemptConnection(peerId);
+      if (!this.state.connectedPeers.has(peerId)) {
+        this.schedulePeerReconnect(peerId);
+      }
+    }, delay);
+    this.peerReconnects.set(peerId, reconnect);
+  }
+
+  private cancelPeerReconnect(peerId: string): void {
+    const reconnect = this.peerReconnects.get(peerId);
+    if (reconnect?.timeout) {
+      clearTimeout(reconnect.timeout);
+    }
+    this.peerReconnects.delete(peerId);
+  }
+
+  private async broadcastMessage(message: P2PMessage): Promise<void> {
+    this.state.connectedPeers.forEach(peerConn => this.sendToPeer(peerConn, message));
+  }
+
+  /**
+   * Send a message to one peer. Reliable message types are tracked until the
+   * peer acknowledges them, if its build sends ACKs.
+   */
+  private sendToPeer(peerConn: PeerConnection, message: P2PMessage): void {
+    const adapted = this.adaptMessageForPeer(peerConn, message);
+    if (!adapted) {
+      return;
+    }
+
+    if (RELIABLE_MESSAGE_TYPES.includes(adapted.type) && peerConn.capabilities.includes('ack')) {
+      this.trackPendingAck(peerConn.id, adapted);
+    }
+
+    try {
+      peerConn.connection.send(adapted);
+    } catch (error) {
+      // A tracked message is retransmitted when its ACK times out
+      console.error(`❌ Failed to send ${message.type} to ${peerConn.id}:`, error);
+    }
+  }
+
+  /**
+   * Rewrite a message for older builds. Returns null to skip the send.
+   */
+  private adaptMessageForPeer(peerConn: PeerConnection, message: P2PMessage): P2PMessage | null {
+    // Builds before multi-candidate battles or voting methods can't follow
+    // the room into a battle that needs them
+    if (message.type === 'BATTLE_START') {
+      const { pokemonIndexes, votingMethod } = (message as P2PBattleStartMessage).payload;
+      if (
+        (!peerConn.capabilities.includes('multi-candidate') && (pokemonIndexes?.length ?? 2) > 2) ||
+        (!peerConn.capabilities.includes('voting-methods') && (votingMethod ?? 'plurality') !== 'plurality')
+      ) {
+        return null;
+      }
+    }
+
+    // Builds before tournaments don't know the message type
+    if (message.type === 'BRACKET_UPDATE' && !peerConn.capabilities.includes('tournaments')) {
+      return null;
+    }
+
+    return this.adaptVoteChangesForPeer(peerConn, message);
+  }
+
+  /**
+   * Rewrite a message for builds without vote-change support. A change goes
+   * out as a plain VOTE (its later timestamp still wins there); withdrawals
+   * can't be expressed, so they are left out.
+   */
+  private adaptVoteChangesForPeer(peerConn: PeerConnection, message: P2PMessage): P2PMessage | null {
+    if (peerConn.capabilities.includes('vote-change')) {
+      return message;
+    }
+
+    switch (message.type) {
+      case 'VOTE_CHANGE':
+        return { ...message, type: 'VOTE' };
+      case 'VOTE_RETRACT':
+        return null;
+      case 'SYNC_REQUEST':
+      case 'SYNC_RESPONSE': {
+        const sync = message as P2PSyncMessage;
+        return { ...sync, payload: { ...sync.payload, votes: sync.payload.votes.filter(vote => !vote.retracted) } };
+      }
+      default:
+        return message;
+    }
+  }
+
+  private trackPendingAck(peerId: string, message: P2PMessage): void {
+    const key = `${peerId}:${message.messageId}`;
+    const pending: PendingAck = { peerId, message, attempts: 0, timeout: null };
+    this.pendingAcks.set(key, pending);
+    this.scheduleRetransmit(key, pending);
+  }
+
+  private scheduleRetransmit(key: string, pending: PendingAck): void {
+    const delay = this.config.ackTimeout * 2 ** pending.attempts;
+
+    pending.timeout = setTimeout(() => {
+      pending.timeout = null;
+      if (this.pendingAcks.get(key) !== pending) return;
+
+      if (pending.attempts >= this.config.maxRetransmits) {
+        console.warn(`⚠️ ${pending.peerId} never acknowledged ${pending.message.type} ${pending.message.messageId}`);
+        this.pendingAcks.delete(key);
+        return;
+      }
+
+      pending.attempts++;
+      // If the peer is mid-reconnect, keep waiting - the retry goes to its new channel
+      const peerConn = this.state.connectedPeers.get(pending.peerId);
+      if (peerConn) {
+        console.log(`🔁 Resending ${pending.message.type} to ${pending.peerId} (${pending.attempts}/${this.config.maxRetransmits})`);
+        try {
+          peerConn.connection.send(pending.message);
+        } catch (error) {
+          console.error(`❌ Failed to resend ${pending.message.type} to ${pending.peerId}:`, error);
         }
+      }
+      this.scheduleRetransmit(key, pending);
+    }, delay);
+  }
+
+  private sendAck(message: P2PMessage, toPeer: string): void {
+    const peerConn = this.state.connectedPeers.get(toPeer);
+    if (!peerConn || !peerConn.capabilities.includes('ack')) {
+      return;
+    }
+
+    const ack: P2PAckMessage = {
+      type: 'ACK',
+      payload: { messageId: message.messageId },
+      timestamp: Date.now(),
+      peerId: this.state.peerId,
+      messageId: this.generateMessageId()
+    };
+
+    try {
+      peerConn.connection.send(ack);
+    } catch (error) {
+      console.error(`❌ Failed to send ACK to ${toPeer}:`, error);
+    }
+  }
+
+  private handleAck(message: P2PAckMessage, fromPeer: string): void {
+    const key = `${fromPeer}:${message.payload.messageId}`;
+    const pending = this.pendingAcks.get(key);
+    if (!pending) return;
+
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+    }
+    this.pendingAcks.delete(key);
+  }
+
+  private clearPendingAcks(peerId?: string): void {
+    this.pendingAcks.forEach((pending, key) => {
+      if (peerId && pending.peerId !== peerId) return;
+      if (pending.timeout) {
+        clearTimeout(pending.timeout);
+      }
+      this.pendingAcks.delete(key);
+    });
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatInterval = setInterval(() => this.checkPeerLiveness(), this.config.heartbeatInterval);
+  }
+
+  /**
+   * Retry the signalling connection with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (this.isIntentionalDisconnect || this.isReconnecting || this.reconnectTimeout) {
+      return;
+    }
+
+    if (this.state.connectionAttempts >= this.config.reconnectAttempts) {
+      console.error('❌ Max reconnection attempts reached');
+      this.updateStatus('error');
+      return;
+    }
+
+    this.state.connectionAttempts++;
+    const delay = getBackoffDelay(this.state.connectionAttempts, this.config.reconnectDelay, this.config.maxReconnectDelay);
+    console.log(`🔄 Reconnecting in ${delay}ms (${this.state.connectionAttempts}/${this.config.reconnectAttempts})...`);
+    this.updateStatus('connecting');
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  /**
+   * Restore signalling, find the room again and re-sync every vote
+   */
+  private async reconnect(): Promise<void> {
+    const generation = this.sessionGeneration;
+    const isStale = () => this.isIntentionalDisconnect || generation !== this.sessionGeneration;
+    this.isReconnecting = true;
+
+    try {
+      await this.restoreSignalling();
+      if (isStale()) return;
+
+      await this.discoverPeers();
+      if (isStale()) return;
+
+      // Catch up on anything voted while we were away
+      await this.requestSync();
+
+      this.state.connectionAttempts = 0;
+      if (!this.heartbeatInterval) {
+        this.startHeartbeat();
+      }
+      this.updateStatus('connected');
+      console.log(`✅ Reconnected to room ${this.state.roomId}`);
+    } catch (error) {
+      console.warn('⚠️ Reconnection attempt failed:', error);
+      if (isStale()) return;
+
+      this.isReconnecting = false;
+      this.scheduleReconnect();
+    } finally {
+      if (generation === this.sessionGeneration) {
+        this.isReconnecting = false;
+      }
+    }
+  }
+
+  /**
+   * Re-register the current transport if possible, so open data channels
+   * survive; otherwise start over with a fresh one
+   */
+  private async restoreSignalling(): Promise<void> {
+    if (this.transport && await this.reconnectTransport(this.transport)) {
+      return;
+    }
+
+    if (this.transport) {
+      this.transport.setHandlers({});
+      this.transport.destroy();
+      this.transport = null;
+    }
+    await this.createPeer();
+  }
+
+  private reconnectTransport(transport: VoteTransport): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingTransportReconnect = null;
+        resolve(false);
+      }, this.config.connectionTimeout);
+
+      this.pendingTransportReconnect = () => {
+        clearTimeout(timeout);
+        this.pendingTransportReconnect = null;
+        resolve(true);
+      };
+
+      try {
+        transport.reconnect();
       } catch (error) {
-        console.error('❌ Reconnection failed:', error);
-        this.attemptReconnection();
+        clearTimeout(timeout);
+        this.pendingTransportReconnect = null;
+        resolve(false);
       }
-    }, this.config.reconnectDelay);
+    });
   }
 
-  private generateRoomId(pokemon1Index: number, pokemon2Index: number): string {
-    const sorted = [pokemon1Index, pokemon2Index].sort((a, b) => a - b);
-    return `battle_${sorted[0]}_vs_${sorted[1]}`;
+  /**
+   * The browser is back online - retry now instead of waiting out the backoff
+   */
+  private handleOnline = (): void => {
+    if (this.isIntentionalDisconnect || this.isReconnecting || this.state.status === 'connected') {
+      return;
+    }
+
+    console.log('🌐 Network is back - reconnecting now');
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.state.connectionAttempts = 0;
+    this.scheduleReconnect();
+  };
+
+  private generateRoomId(pokemonIndexes: number[], sessionId: string, votingMethod: VotingMethod): string {
+    return generateRoomId(pokemonIndexes, sessionId, votingMethod, this.privateRoomTag);
+  }
+
+  /**
+   * Options for dialling a room member - private rooms present their proof
+   */
+  private getConnectOptions(): VoteConnectOptions {
+    return this.roomProof ? { metadata: { roomProof: this.roomProof } } : {};
   }
 
   private generatePeerId(roomId: string): string {
-    // Use a deterministic approach: room + random number from 1-100
-    const randomNum = Math.floor(Math.random() * 100) + 1;
-    return `${roomId}_${randomNum}`;
+    return generatePeerId(roomId);
   }
 
   private generateMessageId(): string {
-    return `msg_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+    return generateMessageId();
   }
 
   private updateStatus(status: P2PStatus): void {
@@ -587,13 +1755,16 @@ class P2PService {
     this.eventHandlers.onError?.(error.message);
   }
 
-  private handlePeerError(error: any): void {
+  private handlePeerError(error: TransportError): void {
     // console.error('🔥 PeerJS Error Details:', error);
     
     // Handle specific PeerJS error types
     if (error.type === 'network') {
-      console.log('🌐 Network error - will try local fallback mode');
-      this.enableLocalFallbackMode();
+      // Failures during initialize or a reconnect attempt are retried by their caller
+      if (this.state.status === 'connected') {
+        console.log('🌐 Network error - reconnecting');
+        this.scheduleReconnect();
+      }
     } else if (error.type === 'server-error') {
       console.log('🛡️ Server error - switching to offline mode');
       this.updateStatus('error');
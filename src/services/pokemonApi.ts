@@ -4,7 +4,6 @@ import { RawPokemonData, Pokemon } from '../types/pokemon';
 import { transformPokemonData } from '../utils/pokemonHelpers';
 import { appConfig } from '../config/environment';
 
-const POKEAPI_BASE_URL = appConfig.pokemonApi.baseUrl;
 const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
 
 interface CachedPokemon {
@@ -41,7 +40,7 @@ class PokemonApiService {
     try {
       console.log(`🔍 Fetching Pokemon #${index} from PokéAPI...`);
       
-      const response = await fetch(`${POKEAPI_BASE_URL}/pokemon/${index}`, {
+      const response = await fetch(`${appConfig.pokemonApi.baseUrl}/pokemon/${index}`, {
         headers: {
           'Accept': 'application/json',
           'Content-Type': 'application/json',
@@ -124,53 +123,50 @@ class PokemonApiService {
   }
 
   /**
-   * Fetch two random Pokemon for a new battle
+   * Fetch distinct random Pokemon for a new battle
    */
-  async fetchRandomBattlePokemon(): Promise<{ pokemon1: Pokemon; pokemon2: Pokemon }> {
-    const { index1, index2 } = this.generateRandomPokemonPair();
-    console.log(`🎲 Generating random battle: Pokemon ${index1} vs Pokemon ${index2}`);
+  async fetchRandomBattlePokemon(count: number = 2): Promise<Pokemon[]> {
+    const indexes = this.generateRandomPokemonIndexes(count);
+    console.log(`🎲 Generating random battle: Pokemon ${indexes.join(' vs ')}`);
     
-    const [pokemon1, pokemon2] = await this.fetchMultiplePokemon([index1, index2]);
+    const pokemon = await this.fetchMultiplePokemon(indexes);
     
-    if (!pokemon1 || !pokemon2) {
+    if (pokemon.length < indexes.length) {
       throw new Error('Failed to load random battle Pokemon');
     }
 
-    return { pokemon1, pokemon2 };
+    return pokemon;
   }
 
   /**
-   * Fetch Pokemon for battle by specific indexes
+   * Fetch Pokemon for battle by specific indexes, in the same order
    */
-  async fetchBattlePokemon(pokemon1Index: number, pokemon2Index: number): Promise<{ pokemon1: Pokemon; pokemon2: Pokemon }> {
-    console.log(`⚔️ Loading battle: Pokemon ${pokemon1Index} vs Pokemon ${pokemon2Index}`);
+  async fetchBattlePokemon(pokemonIndexes: number[]): Promise<Pokemon[]> {
+    console.log(`⚔️ Loading battle: Pokemon ${pokemonIndexes.join(' vs ')}`);
     
-    const [pokemon1, pokemon2] = await this.fetchMultiplePokemon([pokemon1Index, pokemon2Index]);
+    const pokemon = await this.fetchMultiplePokemon(pokemonIndexes);
     
-    if (!pokemon1 || !pokemon2) {
-      throw new Error(`Failed to load battle Pokemon ${pokemon1Index} vs ${pokemon2Index}`);
+    if (pokemon.length < pokemonIndexes.length) {
+      throw new Error(`Failed to load battle Pokemon ${pokemonIndexes.join(' vs ')}`);
     }
 
-    return { pokemon1, pokemon2 };
+    return pokemon;
   }
 
   /**
-   * Generate two different random Pokemon indexes (1-151)
+   * Generate distinct random Pokemon indexes (1-151), sorted ascending
    */
-  private generateRandomPokemonPair(): { index1: number; index2: number } {
-    const index1 = Math.floor(Math.random() * 151) + 1; // 1-151
-    let index2;
+  private generateRandomPokemonIndexes(count: number): number[] {
+    const indexes: number[] = [];
     
-    // Ensure we get two different Pokemon
-    do {
-      index2 = Math.floor(Math.random() * 151) + 1;
-    } while (index2 === index1);
-
-    // Sort the indexes so that index1 is always less than index2
-    if (index1 < index2) {
-      return { index1, index2 };
+    while (indexes.length < count) {
+      const index = Math.floor(Math.random() * 151) + 1; // 1-151
+      if (!indexes.includes(index)) {
+        indexes.push(index);
+      }
     }
-    return { index1: index2, index2: index1 };
+
+    return indexes.sort((a, b) => a - b);
   }
 
 
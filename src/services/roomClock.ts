@@ -0,0 +1,67 @@
+// Room clock - the time every peer in a room agrees on
+//
+// Browser clocks are routinely seconds apart, too much for a shared countdown.
+// Every heartbeat pong carries the responder's local clock, which gives an
+// NTP-style offset sample per peer (assuming symmetric latency). Room time is
+// local time plus the median of those offsets and our own (zero), so a fully
+// connected room settles on the median clock of its members.
+
+// Weight of the newest offset sample in the smoothed per-peer offset
+const OFFSET_SMOOTHING = 0.3;
+
+export class RoomClock {
+  private offsets = new Map<string, number>();
+
+  /**
+   * @param localNow - this browser's own clock (tests pass a skewed one)
+   */
+  constructor(private readonly localNow: () => number = () => Date.now()) {}
+
+  /**
+   * This browser's unadjusted time, as sent in heartbeats
+   */
+  getLocalTime(): number {
+    return this.localNow();
+  }
+
+  /**
+   * Record a pong: we pinged at `sentAt` and the peer's clock read `peerTime` when it answered
+   */
+  recordSample(peerId: string, sentAt: number, peerTime: number, receivedAt: number = this.localNow()): void {
+    const rtt = receivedAt - sentAt;
+    if (rtt < 0) return;
+
+    const sample = peerTime + rtt / 2 - receivedAt;
+    const previous = this.offsets.get(peerId);
+    this.offsets.set(peerId, previous === undefined
+      ? sample
+      : previous * (1 - OFFSET_SMOOTHING) + sample * OFFSET_SMOOTHING);
+  }
+
+  forgetPeer(peerId: string): void {
+    this.offsets.delete(peerId);
+  }
+
+  reset(): void {
+    this.offsets.clear();
+  }
+
+  /**
+   * Milliseconds to add to local time to get room time
+   */
+  getOffset(): number {
+    const offsets = [0, ...Array.from(this.offsets.values())].sort((a, b) => a - b);
+    const middle = Math.floor(offsets.length / 2);
+    const median = offsets.length % 2 === 1
+      ? offsets[middle]
+      : (offsets[middle - 1] + offsets[middle]) / 2;
+    return Math.round(median);
+  }
+
+  now(): number {
+    return this.localNow() + this.getOffset();
+  }
+}
+
+export const roomClock = new RoomClock();
+export default roomClock;
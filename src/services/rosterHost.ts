@@ -0,0 +1,125 @@
+// Roster host for room membership discovery
+//
+// The first peer in a room claims a well-known rendezvous ID on a second
+// transport. Joining peers connect to it, send PEER_JOIN and get the current
+// member list back, then open direct channels to those members. A member stays
+// on the roster for as long as its channel to the host is open.
+
+import { P2PPeerJoinMessage, TransportError, VoteChannel, VoteTransport } from '../types/p2p';
+import { generateMessageId } from '../utils/p2pHelpers';
+import { validateP2PMessage } from '../utils/messageValidation';
+import { hasRoomProof } from '../utils/roomAccess';
+import { VoteTransportFactory } from './transports/voteTransport';
+
+export class RosterHost {
+  private transport: VoteTransport | null = null;
+  private members = new Map<string, VoteChannel | null>();
+
+  constructor(
+    private readonly slotId: string,
+    private readonly selfId: string,
+    private readonly transportFactory: VoteTransportFactory,
+    // A private room's proof - joiners without it never see the member list
+    private readonly roomProof: string | null = null
+  ) {}
+
+  /**
+   * Try to become the roster host. Resolves false when another peer already is.
+   */
+  async claim(timeoutMs: number): Promise<boolean> {
+    const transport = this.transportFactory();
+    transport.setHandlers({
+      onConnection: (channel) => this.handleMemberConnection(channel),
+      onDisconnected: () => transport.reconnect()
+    });
+
+    try {
+      await transport.open(this.slotId, timeoutMs);
+    } catch (error) {
+      transport.setHandlers({});
+      transport.destroy();
+
+      if ((error as TransportError).type === 'unavailable-id') {
+        return false;
+      }
+      throw error;
+    }
+
+    this.transport = transport;
+    this.members.set(this.selfId, null);
+    return true;
+  }
+
+  /**
+   * Current room members, including the host itself
+   */
+  getMembers(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  /**
+   * Give up the host slot so another member can claim it
+   */
+  release(): void {
+    this.members.forEach(channel => channel?.close());
+    this.members.clear();
+
+    if (this.transport) {
+      this.transport.setHandlers({});
+      this.transport.destroy();
+      this.transport = null;
+    }
+  }
+
+  private handleMemberConnection(channel: VoteChannel): void {
+    if (!hasRoomProof(channel.metadata, this.roomProof)) {
+      channel.close();
+      return;
+    }
+
+    channel.on('data', (data) => {
+      const validation = validateP2PMessage(data);
+      if (!validation.valid) {
+        return;
+      }
+
+      if (validation.message.type === 'PEER_JOIN') {
+        this.handleJoin(channel);
+      } else if (validation.message.type === 'PEER_LEAVE') {
+        // Drop the member now rather than when its channel finally closes
+        channel.close();
+      }
+    });
+
+    channel.on('close', () => {
+      // Fires for both graceful leaves and dropped channels
+      if (this.members.get(channel.peer) === channel) {
+        this.members.delete(channel.peer);
+        console.log(`👋 ${channel.peer} left the roster (${this.members.size} member(s))`);
+      }
+    });
+  }
+
+  private handleJoin(channel: VoteChannel): void {
+    // The channel's own peer ID is authoritative - a member cannot register someone else
+    const members = this.getMembers().filter(id => id !== channel.peer);
+    this.members.set(channel.peer, channel);
+
+    const reply: P2PPeerJoinMessage = {
+      type: 'PEER_JOIN',
+      payload: { peerId: this.slotId, members },
+      timestamp: Date.now(),
+      peerId: this.slotId,
+      messageId: generateMessageId()
+    };
+
+    try {
+      channel.send(reply);
+      console.log(`📋 Sent roster of ${members.length} member(s) to ${channel.peer}`);
+    } catch (error) {
+      console.error(`❌ Failed to send roster to ${channel.peer}:`, error);
+    }
+  }
+}
+
+export default RosterHost;
@@ -0,0 +1,190 @@
+// PeerJS (WebRTC) implementation of the vote transport
+
+import Peer, { DataConnection, PeerOptions } from 'peerjs';
+import { AppConfig } from '../../config/environment';
+import {
+  TransportError,
+  VoteChannel,
+  VoteConnectOptions,
+  VoteTransport,
+  VoteTransportEvents
+} from '../../types/p2p';
+import { fetchRoomPeers } from './roomListing';
+
+/**
+ * Adapts a PeerJS DataConnection to the VoteChannel interface
+ */
+class PeerJsChannel implements VoteChannel {
+  constructor(private readonly connection: DataConnection) {}
+
+  get peer(): string {
+    return this.connection.peer;
+  }
+
+  get reliable(): boolean {
+    return this.connection.reliable;
+  }
+
+  get metadata(): unknown {
+    return this.connection.metadata;
+  }
+
+  send(data: unknown): void {
+    this.connection.send(data);
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  on(event: 'open' | 'close', handler: () => void): void;
+  on(event: 'data', handler: (data: unknown) => void): void;
+  on(event: 'error', handler: (error: TransportError) => void): void;
+  on(event: 'open' | 'close' | 'data' | 'error', handler: (arg: never) => void): void {
+    // The overloads above pair each event with what PeerJS passes its handler
+    this.connection.on(event, handler as (arg?: unknown) => void);
+  }
+}
+
+export class PeerJsTransport implements VoteTransport {
+  readonly kind = 'peerjs' as const;
+  private peer: Peer | null = null;
+  private handlers: Partial<VoteTransportEvents> = {};
+  private isDestroyed: boolean = false;
+
+  constructor(private readonly options: AppConfig['peerjs']) {}
+
+  /**
+   * Register with the PeerJS broker under the given ID
+   */
+  open(peerId: string, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const peer = new Peer(peerId, this.buildPeerOptions());
+      this.peer = peer;
+      let hasOpened = false;
+
+      const timeout = setTimeout(() => {
+        reject(new Error('Peer creation timeout'));
+      }, timeoutMs);
+
+      peer.on('open', (id) => {
+        clearTimeout(timeout);
+        // PeerJS fires 'open' again after a successful reconnect()
+        if (hasOpened) {
+          this.handlers.onReconnected?.();
+          return;
+        }
+        hasOpened = true;
+        resolve(id);
+      });
+
+      peer.on('connection', (conn) => {
+        this.handlers.onConnection?.(new PeerJsChannel(conn));
+      });
+
+      peer.on('error', (error) => {
+        clearTimeout(timeout);
+        this.handlers.onError?.(error as TransportError);
+        reject(error);
+      });
+
+      peer.on('close', () => {
+        if (!this.isDestroyed) {
+          this.handlers.onClose?.();
+        }
+      });
+
+      peer.on('disconnected', () => {
+        if (!this.isDestroyed) {
+          this.handlers.onDisconnected?.();
+        }
+      });
+    });
+  }
+
+  connect(peerId: string, options: VoteConnectOptions = {}): VoteChannel {
+    if (!this.peer) {
+      throw new Error('PeerJS transport is not open');
+    }
+
+    const conn = this.peer.connect(peerId, {
+      reliable: true,
+      serialization: 'json',
+      metadata: options.metadata
+    });
+
+    return new PeerJsChannel(conn);
+  }
+
+  reconnect(): void {
+    if (this.peer && !this.isDestroyed) {
+      this.peer.reconnect();
+    }
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.peer) {
+      this.peer.destroy();
+      this.peer = null;
+    }
+  }
+
+  setHandlers(handlers: Partial<VoteTransportEvents>): void {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Ask a self-hosted broker (server/) who is in the room. The PeerJS cloud and
+   * stock PeerServers have no room listing, so they resolve null.
+   */
+  async listRoomPeers(roomId: string): Promise<string[] | null> {
+    if (!this.options.host) {
+      return null;
+    }
+
+    const secure = this.options.secure ?? window.location.protocol === 'https:';
+    const port = this.options.port ? `:${this.options.port}` : '';
+    // Same normalisation PeerJS applies to its own path option
+    const trimmedPath = (this.options.path || '/').replace(/^\/+|\/+$/g, '');
+    const path = trimmedPath ? `/${trimmedPath}/` : '/';
+    const url = `${secure ? 'https' : 'http'}://${this.options.host}${port}${path}${this.options.key || 'peerjs'}/rooms/${encodeURIComponent(roomId)}/peers`;
+
+    return fetchRoomPeers(url);
+  }
+
+  private buildPeerOptions(): PeerOptions {
+    // STUN/TURN servers and ICE policy come from AppConfig for cross-network connectivity
+    const peerOptions: PeerOptions = {
+      debug: 0, // Disable debug output for cleaner logs
+      config: {
+        iceServers: this.options.iceServers,
+        iceTransportPolicy: this.options.iceTransportPolicy,
+        iceCandidatePoolSize: 10
+      },
+      // Increase connection timeout for cross-network scenarios
+      pingInterval: 5000
+    };
+
+    // Add custom PeerJS server configuration if provided
+    if (this.options.host) {
+      peerOptions.host = this.options.host;
+    }
+    if (this.options.port) {
+      peerOptions.port = this.options.port;
+    }
+    if (this.options.path) {
+      peerOptions.path = this.options.path;
+    }
+    if (this.options.key) {
+      peerOptions.key = this.options.key;
+    }
+    if (this.options.secure !== undefined) {
+      peerOptions.secure = this.options.secure;
+    }
+
+    return peerOptions;
+  }
+}
+
+export default PeerJsTransport;
@@ -0,0 +1,296 @@
+// WebSocket relay implementation of the vote transport
+//
+// The relay only routes JSON frames between registered peer IDs, so votes can
+// flow on networks where WebRTC is blocked. Wire protocol:
+//
+//   client -> relay: REGISTER { id }
+//                    CONNECT  { dst, channelId, metadata }
+//                    ACCEPT   { dst, channelId }
+//                    DATA     { dst, channelId, data }
+//                    CLOSE    { dst, channelId }
+//   relay -> client: OPEN { id } | ID-TAKEN { id } | UNAVAILABLE { dst, channelId }
+//                    CONNECT / ACCEPT / DATA / CLOSE with `src` instead of `dst`
+
+import {
+  TransportError,
+  VoteChannel,
+  VoteConnectOptions,
+  VoteTransport,
+  VoteTransportEvents
+} from '../../types/p2p';
+import { fetchRoomPeers } from './roomListing';
+
+type RelayFrameType =
+  | 'REGISTER'
+  | 'OPEN'
+  | 'ID-TAKEN'
+  | 'UNAVAILABLE'
+  | 'CONNECT'
+  | 'ACCEPT'
+  | 'DATA'
+  | 'CLOSE';
+
+interface RelayFrame {
+  type: RelayFrameType;
+  id?: string;
+  src?: string;
+  dst?: string;
+  channelId?: string;
+  metadata?: unknown;
+  data?: unknown;
+}
+
+type ChannelEvent = 'open' | 'close' | 'data' | 'error';
+
+interface ChannelHandlers {
+  open: Array<() => void>;
+  close: Array<() => void>;
+  data: Array<(data: unknown) => void>;
+  error: Array<(error: TransportError) => void>;
+}
+
+const createTransportError = (type: string, message: string): TransportError =>
+  Object.assign(new Error(message), { type });
+
+class RelayChannel implements VoteChannel {
+  readonly reliable = true;
+  private handlers: ChannelHandlers = { open: [], close: [], data: [], error: [] };
+  private isOpen: boolean = false;
+  private isClosed: boolean = false;
+
+  constructor(
+    private readonly transport: RelayTransport,
+    readonly peer: string,
+    readonly channelId: string,
+    readonly metadata?: unknown
+  ) {}
+
+  send(data: unknown): void {
+    if (!this.isOpen || this.isClosed) {
+      throw createTransportError('disconnected', `Channel to ${this.peer} is not open`);
+    }
+    this.transport.sendFrame({ type: 'DATA', dst: this.peer, channelId: this.channelId, data });
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    try {
+      this.transport.sendFrame({ type: 'CLOSE', dst: this.peer, channelId: this.channelId });
+    } catch (error) {
+      // Relay already gone - the remote side will notice on its own
+    }
+    this.handleClose();
+  }
+
+  on(event: 'open' | 'close', handler: () => void): void;
+  on(event: 'data', handler: (data: unknown) => void): void;
+  on(event: 'error', handler: (error: TransportError) => void): void;
+  on(event: ChannelEvent, handler: (arg: never) => void): void {
+    // The overloads above pair each event with its handler's signature
+    (this.handlers[event] as Array<(arg: never) => void>).push(handler);
+  }
+
+  handleOpen(): void {
+    if (this.isOpen || this.isClosed) return;
+    this.isOpen = true;
+    this.handlers.open.forEach(handler => handler());
+  }
+
+  handleData(data: unknown): void {
+    this.handlers.data.forEach(handler => handler(data));
+  }
+
+  handleError(error: TransportError): void {
+    this.handlers.error.forEach(handler => handler(error));
+  }
+
+  handleClose(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.transport.forgetChannel(this.channelId);
+    this.handlers.close.forEach(handler => handler());
+  }
+}
+
+export class RelayTransport implements VoteTransport {
+  readonly kind = 'relay' as const;
+  private socket: WebSocket | null = null;
+  private peerId: string = '';
+  private channels = new Map<string, RelayChannel>();
+  private handlers: Partial<VoteTransportEvents> = {};
+  private isDestroyed: boolean = false;
+
+  constructor(private readonly url: string) {}
+
+  /**
+   * Connect to the relay and register under the given ID
+   */
+  open(peerId: string, timeoutMs: number): Promise<string> {
+    this.peerId = peerId;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(createTransportError('network', 'Relay registration timeout'));
+      }, timeoutMs);
+
+      this.connectSocket(
+        (id) => {
+          clearTimeout(timeout);
+          resolve(id);
+        },
+        (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  connect(peerId: string, options: VoteConnectOptions = {}): VoteChannel {
+    const channelId = `${this.peerId}_${Math.random().toString(36).substring(2)}`;
+    const channel = new RelayChannel(this, peerId, channelId, options.metadata);
+    this.channels.set(channelId, channel);
+
+    this.sendFrame({ type: 'CONNECT', dst: peerId, channelId, metadata: options.metadata });
+    return channel;
+  }
+
+  reconnect(): void {
+    if (this.isDestroyed || this.socket?.readyState === WebSocket.OPEN) {
+      return;
+    }
+    this.connectSocket(() => this.handlers.onReconnected?.());
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    this.channels.forEach(channel => channel.close());
+    this.channels.clear();
+
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  setHandlers(handlers: Partial<VoteTransportEvents>): void {
+    this.handlers = handlers;
+  }
+
+  /**
+   * The relay lists room members over HTTP next to its socket endpoint
+   */
+  listRoomPeers(roomId: string): Promise<string[] | null> {
+    const base = this.url.replace(/^ws/, 'http').replace(/\/+$/, '');
+    return fetchRoomPeers(`${base}/rooms/${encodeURIComponent(roomId)}/peers`);
+  }
+
+  /**
+   * Internal helpers used by RelayChannel
+   */
+  sendFrame(frame: RelayFrame): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw createTransportError('network', 'Relay socket is not open');
+    }
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  forgetChannel(channelId: string): void {
+    this.channels.delete(channelId);
+  }
+
+  private connectSocket(
+    onRegistered?: (id: string) => void,
+    onFailed?: (error: TransportError) => void
+  ): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    let isRegistered = false;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'REGISTER', id: this.peerId }));
+    };
+
+    socket.onmessage = (event) => {
+      let frame: RelayFrame;
+      try {
+        frame = JSON.parse(event.data);
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed relay frame');
+        return;
+      }
+
+      if (frame.type === 'OPEN') {
+        isRegistered = true;
+        onRegistered?.(frame.id || this.peerId);
+        return;
+      }
+
+      if (frame.type === 'ID-TAKEN') {
+        const error = createTransportError('unavailable-id', `ID "${this.peerId}" is taken`);
+        this.handlers.onError?.(error);
+        onFailed?.(error);
+        socket.close();
+        return;
+      }
+
+      this.handleFrame(frame);
+    };
+
+    socket.onerror = () => {
+      const error = createTransportError('network', `Lost connection to relay ${this.url}`);
+      this.handlers.onError?.(error);
+      if (!isRegistered) {
+        onFailed?.(error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+
+      // Channels cannot outlive the relay connection
+      this.channels.forEach(channel => channel.handleClose());
+      this.channels.clear();
+
+      if (!this.isDestroyed && isRegistered) {
+        this.handlers.onDisconnected?.();
+      }
+    };
+  }
+
+  private handleFrame(frame: RelayFrame): void {
+    const channelId = frame.channelId || '';
+    const channel = this.channels.get(channelId);
+
+    switch (frame.type) {
+      case 'CONNECT': {
+        if (!frame.src) return;
+        const incoming = new RelayChannel(this, frame.src, channelId, frame.metadata);
+        this.channels.set(channelId, incoming);
+        this.handlers.onConnection?.(incoming);
+
+        // The handler may have rejected the channel straight away
+        if (this.channels.has(channelId)) {
+          this.sendFrame({ type: 'ACCEPT', dst: frame.src, channelId });
+          incoming.handleOpen();
+        }
+        break;
+      }
+      case 'ACCEPT':
+        channel?.handleOpen();
+        break;
+      case 'DATA':
+        channel?.handleData(frame.data);
+        break;
+      case 'CLOSE':
+        channel?.handleClose();
+        break;
+      case 'UNAVAILABLE':
+        channel?.handleError(createTransportError('peer-unavailable', `Could not connect to peer ${frame.dst}`));
+        channel?.handleClose();
+        break;
+    }
+  }
+}
+
+export default RelayTransport;
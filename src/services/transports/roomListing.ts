@@ -0,0 +1,22 @@
+// Room member listing offered by the self-hosted signalling server (server/)
+
+/**
+ * GET a JSON array of peer IDs. Resolves null when the broker has no such
+ * endpoint or can't be reached, so callers fall back to other discovery.
+ */
+export const fetchRoomPeers = async (url: string): Promise<string[] | null> => {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      return null;
+    }
+
+    const peers: unknown = await response.json();
+    if (!Array.isArray(peers) || !peers.every(peerId => typeof peerId === 'string')) {
+      return null;
+    }
+    return peers;
+  } catch (error) {
+    return null;
+  }
+};
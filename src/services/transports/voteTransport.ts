@@ -0,0 +1,21 @@
+// Vote transport factory - picks the implementation configured in AppConfig
+
+import { appConfig, AppConfig } from '../../config/environment';
+import { VoteTransport } from '../../types/p2p';
+import { PeerJsTransport } from './peerjsTransport';
+import { RelayTransport } from './relayTransport';
+
+export type VoteTransportFactory = () => VoteTransport;
+
+/**
+ * Create a fresh transport for the configured kind
+ */
+export const createVoteTransport = (config: AppConfig = appConfig): VoteTransport => {
+  switch (config.transport.kind) {
+    case 'relay':
+      return new RelayTransport(config.transport.relayUrl);
+    case 'peerjs':
+    default:
+      return new PeerJsTransport(config.peerjs);
+  }
+};
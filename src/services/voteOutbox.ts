@@ -0,0 +1,108 @@
+// Persistent outbox for this browser's own votes
+//
+// Every vote we cast is queued here until at least one peer acknowledges it,
+// so votes cast while offline (or before anyone else joined) are delivered
+// later. Entries survive page reloads via localStorage.
+
+import { OutboxEntry, VoteDeliveryStatus } from '../types/p2p';
+import { Vote } from '../types/voting';
+import { getVoteKey } from '../utils/voteCrdt';
+
+const OUTBOX_STORAGE_KEY = 'pokemon_battle_vote_outbox';
+const OUTBOX_EXPIRY_HOURS = 24; // Match browser vote records
+const MAX_OUTBOX_ENTRIES = 50;
+
+export class VoteOutbox {
+  // Tests give each simulated browser its own outbox under its own storage key
+  constructor(private readonly storageKey: string = OUTBOX_STORAGE_KEY) {}
+
+  /**
+   * Queue a vote for delivery to the given room. A pending earlier ballot of
+   * the same user is dropped - the new one supersedes it anyway.
+   */
+  enqueue(vote: Vote, roomId: string): void {
+    const key = getVoteKey(vote);
+    const entries = this.readEntries().filter(entry =>
+      entry.vote.id !== vote.id &&
+      !(entry.status === 'pending' && getVoteKey(entry.vote) === key)
+    );
+    entries.push({
+      vote,
+      roomId,
+      status: 'pending',
+      queuedAt: Date.now()
+    });
+
+    // Oldest delivered entries go first when the outbox is full
+    while (entries.length > MAX_OUTBOX_ENTRIES) {
+      const deliveredIndex = entries.findIndex(entry => entry.status === 'delivered');
+      entries.splice(deliveredIndex >= 0 ? deliveredIndex : 0, 1);
+    }
+
+    this.saveEntries(entries);
+  }
+
+  /**
+   * Votes still waiting for an acknowledgement in the given room
+   */
+  getPending(roomId: string): Vote[] {
+    return this.readEntries()
+      .filter(entry => entry.status === 'pending' && entry.roomId === roomId)
+      .map(entry => entry.vote);
+  }
+
+  /**
+   * Record that a peer acknowledged a vote. Returns false if it wasn't pending.
+   */
+  markDelivered(voteId: string, peerId: string): boolean {
+    const entries = this.readEntries();
+    const entry = entries.find(candidate => candidate.vote.id === voteId);
+    if (!entry || entry.status === 'delivered') {
+      return false;
+    }
+
+    entry.status = 'delivered';
+    entry.deliveredAt = Date.now();
+    entry.deliveredTo = peerId;
+    this.saveEntries(entries);
+    return true;
+  }
+
+  /**
+   * Delivery status of every vote in the outbox, keyed by vote ID
+   */
+  getStatuses(): Record<string, VoteDeliveryStatus> {
+    const statuses: Record<string, VoteDeliveryStatus> = {};
+    this.readEntries().forEach(entry => {
+      statuses[entry.vote.id] = entry.status;
+    });
+    return statuses;
+  }
+
+  private readEntries(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+
+      const entries: OutboxEntry[] = JSON.parse(stored);
+      const expiryMs = OUTBOX_EXPIRY_HOURS * 60 * 60 * 1000;
+      const now = Date.now();
+      return entries.filter(entry => now - entry.queuedAt < expiryMs);
+    } catch (error) {
+      console.warn('Failed to read vote outbox from localStorage:', error);
+      return [];
+    }
+  }
+
+  private saveEntries(entries: OutboxEntry[]): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('Failed to save vote outbox to localStorage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const voteOutbox = new VoteOutbox();
+export default voteOutbox;
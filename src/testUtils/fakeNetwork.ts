@@ -0,0 +1,456 @@
+// In-memory network for multi-peer tests
+//
+// Stands in for the signalling broker and WebRTC: FakeTransport implements
+// VoteTransport and routes channels between simulated hosts in the same
+// process, so several P2PService instances can talk without a real network.
+// Traffic can be delayed, dropped, partitioned and cut off per host.
+
+import { VoteTransportFactory } from '../services/transports/voteTransport';
+import {
+  TransportError,
+  VoteChannel,
+  VoteConnectOptions,
+  VoteTransport,
+  VoteTransportEvents
+} from '../types/p2p';
+import { isPeerInRoom } from '../utils/p2pHelpers';
+
+export interface FakeNetworkOptions {
+  // One-way delivery delay in ms, fixed or a [min, max] range
+  latency?: number | [number, number];
+  // Probability (0-1) that a data message is lost in transit
+  lossRate?: number;
+  // List room members like server/ does; when false, discovery falls back to the roster host
+  roomListing?: boolean;
+}
+
+type ChannelEvent = 'open' | 'close' | 'data' | 'error';
+
+interface ChannelHandlers {
+  open: Array<() => void>;
+  close: Array<() => void>;
+  data: Array<(data: unknown) => void>;
+  error: Array<(error: TransportError) => void>;
+}
+
+const createTransportError = (type: string, message: string): TransportError =>
+  Object.assign(new Error(message), { type });
+
+class FakeChannel implements VoteChannel {
+  readonly reliable = true;
+  remote: FakeChannel | null = null;
+  private handlers: ChannelHandlers = { open: [], close: [], data: [], error: [] };
+  private isOpen: boolean = false;
+  private isClosed: boolean = false;
+  // Deliveries in one direction stay in order, like a reliable data channel
+  private deliveries: Array<{ at: number; deliver: () => void }> = [];
+  private deliveryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly network: FakeNetwork,
+    readonly transport: FakeTransport,
+    readonly peer: string,
+    readonly metadata?: unknown
+  ) {}
+
+  get host(): string {
+    return this.transport.host;
+  }
+
+  send(data: unknown): void {
+    if (!this.isOpen || this.isClosed || !this.remote) {
+      throw createTransportError('disconnected', `Channel to ${this.peer} is not open`);
+    }
+
+    // Serialise like the real transports, so peers never share objects
+    const remote = this.remote;
+    const payload = JSON.stringify(data);
+    this.network.transmit(this, remote, () => remote.handleData(JSON.parse(payload)), true);
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+
+    const remote = this.remote;
+    this.handleClose();
+    if (remote) {
+      this.network.transmit(this, remote, () => remote.handleClose(), false);
+    }
+  }
+
+  on(event: 'open' | 'close', handler: () => void): void;
+  on(event: 'data', handler: (data: unknown) => void): void;
+  on(event: 'error', handler: (error: TransportError) => void): void;
+  on(event: ChannelEvent, handler: (arg: never) => void): void {
+    (this.handlers[event] as Array<(arg: never) => void>).push(handler);
+  }
+
+  /**
+   * Queue a delivery to the other end after the given latency, never
+   * overtaking an earlier one
+   */
+  schedule(latency: number, deliver: () => void): void {
+    const previous = this.deliveries[this.deliveries.length - 1];
+    this.deliveries.push({ at: Math.max(Date.now() + latency, previous?.at ?? 0), deliver });
+    if (!this.deliveryTimer) {
+      this.deliverNext();
+    }
+  }
+
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  handleOpen(): void {
+    if (this.isOpen || this.isClosed) return;
+    this.isOpen = true;
+    this.handlers.open.forEach(handler => handler());
+  }
+
+  handleData(data: unknown): void {
+    if (this.isOpen && !this.isClosed) {
+      this.handlers.data.forEach(handler => handler(data));
+    }
+  }
+
+  handleError(error: TransportError): void {
+    this.handlers.error.forEach(handler => handler(error));
+  }
+
+  handleClose(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.transport.forgetChannel(this);
+    this.handlers.close.forEach(handler => handler());
+  }
+
+  private deliverNext(): void {
+    const next = this.deliveries[0];
+    if (!next) {
+      this.deliveryTimer = null;
+      return;
+    }
+
+    this.deliveryTimer = setTimeout(() => {
+      this.deliveries.shift();
+      next.deliver();
+      this.deliverNext();
+    }, Math.max(0, next.at - Date.now()));
+  }
+}
+
+export class FakeTransport implements VoteTransport {
+  // Routes frames between registered IDs, like the relay transport
+  readonly kind = 'relay' as const;
+  peerId: string | null = null;
+  private handlers: Partial<VoteTransportEvents> = {};
+  private channels = new Set<FakeChannel>();
+  private isRegistered: boolean = false;
+  private isDestroyed: boolean = false;
+  private wantsReconnect: boolean = false;
+
+  constructor(
+    private readonly network: FakeNetwork,
+    readonly host: string
+  ) {}
+
+  get registered(): boolean {
+    return this.isRegistered && !this.isDestroyed;
+  }
+
+  open(peerId: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.network.afterSignallingDelay(() => {
+        const error = this.isDestroyed
+          ? createTransportError('disconnected', 'Transport was destroyed')
+          : !this.network.isOnline(this.host)
+            ? createTransportError('network', 'Lost connection to server')
+            : !this.network.register(peerId, this)
+              ? createTransportError('unavailable-id', `ID "${peerId}" is taken`)
+              : null;
+
+        if (error) {
+          this.handlers.onError?.(error);
+          reject(error);
+          return;
+        }
+
+        this.peerId = peerId;
+        this.isRegistered = true;
+        resolve(peerId);
+      });
+    });
+  }
+
+  connect(peerId: string, options: VoteConnectOptions = {}): VoteChannel {
+    if (!this.peerId || this.isDestroyed) {
+      throw new Error('Fake transport is not open');
+    }
+
+    const channel = new FakeChannel(this.network, this, peerId, options.metadata);
+    this.channels.add(channel);
+    this.network.dial(channel, this.peerId);
+    return channel;
+  }
+
+  reconnect(): void {
+    if (this.isDestroyed || this.isRegistered) {
+      return;
+    }
+
+    this.wantsReconnect = true;
+    this.network.afterSignallingDelay(() => this.restoreRegistration());
+  }
+
+  destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+    this.isRegistered = false;
+
+    this.channels.forEach(channel => channel.close());
+    this.channels.clear();
+    if (this.peerId) {
+      this.network.unregister(this.peerId, this);
+    }
+  }
+
+  setHandlers(handlers: Partial<VoteTransportEvents>): void {
+    this.handlers = handlers;
+  }
+
+  async listRoomPeers(roomId: string): Promise<string[] | null> {
+    return this.network.listRoomPeers(roomId, this.host);
+  }
+
+  /**
+   * Network-side hooks
+   */
+  accept(channel: FakeChannel): boolean {
+    this.channels.add(channel);
+    this.handlers.onConnection?.(channel);
+    // The handler may have closed the channel straight away
+    return !channel.closed;
+  }
+
+  forgetChannel(channel: FakeChannel): void {
+    this.channels.delete(channel);
+  }
+
+  getChannels(): FakeChannel[] {
+    return Array.from(this.channels);
+  }
+
+  handleNetworkLoss(): void {
+    if (this.isDestroyed) return;
+
+    this.getChannels().forEach(channel => this.network.breakChannel(channel));
+    if (this.isRegistered) {
+      this.isRegistered = false;
+      this.handlers.onDisconnected?.();
+    }
+  }
+
+  restoreRegistration(): void {
+    if (!this.wantsReconnect || this.isDestroyed || !this.peerId || !this.network.isOnline(this.host)) {
+      return;
+    }
+    if (!this.network.register(this.peerId, this)) {
+      this.handlers.onError?.(createTransportError('unavailable-id', `ID "${this.peerId}" is taken`));
+      return;
+    }
+
+    this.wantsReconnect = false;
+    this.isRegistered = true;
+    this.handlers.onReconnected?.();
+  }
+}
+
+export class FakeNetwork {
+  private peers = new Map<string, FakeTransport>();
+  private transports = new Set<FakeTransport>();
+  private offlineHosts = new Set<string>();
+  // Hosts in different groups can't reach each other; null means no partition
+  private partitions: string[][] | null = null;
+  private options: Required<FakeNetworkOptions>;
+
+  constructor(options: FakeNetworkOptions = {}) {
+    this.options = { latency: 5, lossRate: 0, roomListing: true, ...options };
+  }
+
+  /**
+   * Transport factory for one simulated browser; pass it to P2PService
+   */
+  createTransportFactory(host: string): VoteTransportFactory {
+    return () => {
+      const transport = new FakeTransport(this, host);
+      this.transports.add(transport);
+      return transport;
+    };
+  }
+
+  setLatency(latency: number | [number, number]): void {
+    this.options.latency = latency;
+  }
+
+  setLossRate(lossRate: number): void {
+    this.options.lossRate = lossRate;
+  }
+
+  /**
+   * Split the hosts into groups that can't reach each other. Channels across
+   * groups fail at once; hosts missing from every group are isolated. The
+   * broker stays reachable, as when only peer-to-peer paths fail.
+   */
+  partition(...groups: string[][]): void {
+    this.partitions = groups;
+
+    this.transports.forEach(transport => {
+      transport.getChannels()
+        .filter(channel => channel.remote && !this.canReach(channel.host, channel.remote.host))
+        .forEach(channel => this.breakChannel(channel));
+    });
+  }
+
+  heal(): void {
+    this.partitions = null;
+  }
+
+  /**
+   * Take a host offline: its channels drop and it loses the broker
+   */
+  disconnect(host: string): void {
+    this.offlineHosts.add(host);
+    this.transports.forEach(transport => {
+      if (transport.host === host) {
+        transport.handleNetworkLoss();
+      }
+    });
+  }
+
+  /**
+   * Bring a host back online; transports waiting to reconnect re-register
+   */
+  reconnect(host: string): void {
+    this.offlineHosts.delete(host);
+    this.transports.forEach(transport => {
+      if (transport.host === host) {
+        this.afterSignallingDelay(() => transport.restoreRegistration());
+      }
+    });
+  }
+
+  isOnline(host: string): boolean {
+    return !this.offlineHosts.has(host);
+  }
+
+  canReach(fromHost: string, toHost: string): boolean {
+    if (!this.isOnline(fromHost) || !this.isOnline(toHost)) {
+      return false;
+    }
+    if (!this.partitions || fromHost === toHost) {
+      return true;
+    }
+    return this.partitions.some(group => group.includes(fromHost) && group.includes(toHost));
+  }
+
+  /**
+   * Peer IDs currently registered with the broker
+   */
+  getRegisteredPeers(): string[] {
+    return Array.from(this.peers.entries())
+      .filter(([, transport]) => transport.registered)
+      .map(([peerId]) => peerId);
+  }
+
+  register(peerId: string, transport: FakeTransport): boolean {
+    const owner = this.peers.get(peerId);
+    if (owner && owner !== transport && owner.registered) {
+      return false;
+    }
+    this.peers.set(peerId, transport);
+    return true;
+  }
+
+  unregister(peerId: string, transport: FakeTransport): void {
+    if (this.peers.get(peerId) === transport) {
+      this.peers.delete(peerId);
+    }
+    this.transports.delete(transport);
+  }
+
+  listRoomPeers(roomId: string, host: string): string[] | null {
+    if (!this.options.roomListing || !this.isOnline(host)) {
+      return null;
+    }
+    return this.getRegisteredPeers().filter(peerId => isPeerInRoom(peerId, roomId));
+  }
+
+  /**
+   * Open a channel to channel.peer after one network round trip
+   */
+  dial(channel: FakeChannel, fromPeerId: string): void {
+    setTimeout(() => {
+      const target = this.peers.get(channel.peer);
+      if (channel.closed) {
+        return;
+      }
+      if (!target || !target.registered || !this.canReach(channel.host, target.host)) {
+        channel.handleError(createTransportError('peer-unavailable', `Could not connect to peer ${channel.peer}`));
+        channel.handleClose();
+        return;
+      }
+
+      const remote = new FakeChannel(this, target, fromPeerId, channel.metadata);
+      channel.remote = remote;
+      remote.remote = channel;
+
+      if (target.accept(remote)) {
+        // The dialler learns the channel is open one trip later, ahead of any data
+        this.transmit(remote, channel, () => channel.handleOpen(), false);
+        remote.handleOpen();
+      }
+    }, this.sampleLatency());
+  }
+
+  /**
+   * Deliver something from one channel end to the other, subject to latency,
+   * loss (data only) and partitions
+   */
+  transmit(from: FakeChannel, to: FakeChannel, deliver: () => void, isData: boolean): void {
+    if (!this.canReach(from.host, to.host)) {
+      return;
+    }
+    if (isData && Math.random() < this.options.lossRate) {
+      return;
+    }
+
+    from.schedule(this.sampleLatency(), () => {
+      // A partition that started in flight still drops it
+      if (this.canReach(from.host, to.host)) {
+        deliver();
+      }
+    });
+  }
+
+  /**
+   * Close both ends of a channel at once, as when the path between them fails
+   */
+  breakChannel(channel: FakeChannel): void {
+    const remote = channel.remote;
+    channel.handleClose();
+    remote?.handleClose();
+  }
+
+  afterSignallingDelay(callback: () => void): void {
+    setTimeout(callback, this.sampleLatency());
+  }
+
+  private sampleLatency(): number {
+    const { latency } = this.options;
+    if (typeof latency === 'number') {
+      return latency;
+    }
+    const [min, max] = latency;
+    return min + Math.random() * (max - min);
+  }
+}
@@ -0,0 +1,295 @@
+// Simulated browsers for multi-peer tests
+//
+// Each SimulatedPeer pairs its own P2PService with a copy of the battle state,
+// wired the way useP2P and BattleArena wire the real app, so a test can drive
+// several browsers over a FakeNetwork and compare their BattleState.results.
+// Every peer signs with its own key and queues votes in its own outbox.
+
+import { battleReducer, initialState } from '../context/BattleContext';
+import { IdentityService } from '../services/identityService';
+import { P2PService } from '../services/p2pService';
+import { RoomClock } from '../services/roomClock';
+import { VoteOutbox } from '../services/voteOutbox';
+import { P2PServiceConfig } from '../types/p2p';
+import { Bracket } from '../types/tournament';
+import { BattleState, BattleTiming, TieBreakMode, Vote, VoteResults, VotingAction, VotingMethod } from '../types/voting';
+import { mergeBrackets } from '../utils/bracketHelpers';
+import { voteFromMessagePayload } from '../utils/p2pHelpers';
+import { getNextBallotTimestamp } from '../utils/voteCrdt';
+import { generateBattleId, generateVoteId, getBallotFields, getUserVote, isBattleActive } from '../utils/votingHelpers';
+import { FakeNetwork } from './fakeNetwork';
+
+export interface SimulatedBattle {
+  // Indexes and names of the same candidates, in the same order
+  pokemonIndexes: number[];
+  pokemonNames: string[];
+  sessionId: string;
+  // Joins the private room this code opens
+  inviteCode?: string;
+  votingMethod?: VotingMethod;
+  // Timed battles close this long after they start
+  durationMs?: number;
+  tieBreak?: TieBreakMode;
+  suddenDeathMs?: number;
+}
+
+export const DEFAULT_BATTLE: SimulatedBattle = {
+  pokemonIndexes: [1, 4],
+  pokemonNames: ['bulbasaur', 'charmander'],
+  sessionId: 'test01'
+};
+
+// Timers scaled down from the defaults so tests settle in well under a second
+export const FAST_P2P_CONFIG: Partial<P2PServiceConfig> = {
+  connectionTimeout: 500,
+  heartbeatInterval: 100,
+  discoveryTimeout: 150,
+  reconnectDelay: 20,
+  maxReconnectDelay: 200,
+  reconnectAttempts: 20,
+  ackTimeout: 60
+};
+
+export class SimulatedPeer {
+  readonly service: P2PService;
+  readonly clock: RoomClock;
+  readonly identity: IdentityService;
+  readonly outbox: VoteOutbox;
+  state: BattleState = initialState;
+  // Tournament this peer follows, as useTournament holds it
+  bracket: Bracket | null = null;
+  // Real time at which this peer closed voting, as BattleContext's timer does
+  closedAt?: number;
+  private closeCheck: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly name: string,
+    network: FakeNetwork,
+    private readonly battle: SimulatedBattle = DEFAULT_BATTLE,
+    config: Partial<P2PServiceConfig> = {},
+    clockSkewMs: number = 0
+  ) {
+    this.clock = new RoomClock(() => Date.now() + clockSkewMs);
+    this.identity = new IdentityService(`identity_${name}`);
+    this.outbox = new VoteOutbox(`outbox_${name}`);
+    this.service = new P2PService(
+      network.createTransportFactory(name),
+      { ...FAST_P2P_CONFIG, ...config },
+      this.clock,
+      this.identity,
+      this.outbox
+    );
+    this.wireEvents();
+  }
+
+  get results(): VoteResults {
+    return this.state.results;
+  }
+
+  get connectedPeerIds(): string[] {
+    return Array.from(this.service.getConnectionState().connectedPeers.keys());
+  }
+
+  /**
+   * Open the battle and join its room
+   */
+  async join(): Promise<void> {
+    this.dispatch({
+      type: 'START_BATTLE',
+      payload: {
+        pokemon: this.battle.pokemonNames.map(name => ({ name })),
+        battleId: generateBattleId(this.battle.pokemonIndexes, this.battle.sessionId, this.battle.votingMethod),
+        votingMethod: this.battle.votingMethod,
+        startTime: this.clock.now(),
+        durationMs: this.battle.durationMs ?? 0,
+        tieBreak: this.battle.tieBreak,
+        suddenDeathMs: this.battle.suddenDeathMs
+      }
+    });
+    this.closeCheck = setInterval(() => {
+      if (this.state.status === 'active' && !isBattleActive(this.state, this.clock.now())) {
+        this.closedAt = Date.now();
+        this.dispatch({ type: 'END_BATTLE' });
+      }
+    }, 5);
+    await this.service.initialize(
+      this.battle.pokemonIndexes,
+      this.battle.sessionId,
+      this.battle.inviteCode,
+      this.battle.votingMethod
+    );
+  }
+
+  /**
+   * Cast and broadcast a signed vote, as the vote button does. Unlike the
+   * button it still broadcasts after the close, like a peer with a stale UI.
+   * Approval and ranked battles take the whole ballot's choices.
+   */
+  async vote(choice: string | string[]): Promise<Vote> {
+    const vote = await this.identity.signVote({
+      id: generateVoteId(),
+      ...getBallotFields(this.state.votingMethod, Array.isArray(choice) ? choice : [choice]),
+      battleId: this.state.battleId,
+      timestamp: this.clock.now()
+    });
+
+    this.dispatch({ type: 'CAST_VOTE', payload: vote });
+    await this.service.broadcastVote(vote);
+    return vote;
+  }
+
+  /**
+   * Replace this peer's ballot with a vote for another Pokemon
+   */
+  async changeVote(pokemonName: string): Promise<Vote> {
+    return this.recast({ pokemonName }, 'CHANGE_VOTE');
+  }
+
+  /**
+   * Withdraw this peer's ballot, as the "Withdraw vote" button does
+   */
+  async retract(): Promise<Vote> {
+    return this.recast({ retracted: true }, 'RETRACT_VOTE');
+  }
+
+  /**
+   * Adopt a bracket (merged with ours) and share it, as useTournament does
+   * when a tournament starts or a match is decided
+   */
+  async shareBracket(bracket: Bracket): Promise<void> {
+    this.bracket = mergeBrackets(this.bracket, bracket);
+    await this.service.broadcastBracket(this.bracket);
+  }
+
+  leave(): void {
+    if (this.closeCheck) {
+      clearInterval(this.closeCheck);
+      this.closeCheck = null;
+    }
+    this.service.disconnect();
+  }
+
+  dispatch(action: VotingAction): void {
+    this.state = battleReducer(this.state, action);
+  }
+
+  private getBattleTiming(): BattleTiming | null {
+    if (this.state.status === 'idle') {
+      return null;
+    }
+
+    const { battleId, candidateNames, startTime, endTime } = this.state;
+    return endTime === undefined
+      ? { battleId, candidateNames, startTime }
+      : { battleId, candidateNames, startTime, endTime };
+  }
+
+  private async recast(changes: Pick<Partial<Vote>, 'pokemonName' | 'retracted'>, actionType: 'CHANGE_VOTE' | 'RETRACT_VOTE'): Promise<Vote> {
+    const { userId } = await this.identity.getIdentity();
+    const current = getUserVote(this.state.votes, userId, this.state.battleId);
+    if (!current) {
+      throw new Error(`${this.name} has no vote to replace`);
+    }
+
+    const vote = await this.identity.signVote({
+      id: generateVoteId(),
+      pokemonName: current.pokemonName,
+      battleId: this.state.battleId,
+      timestamp: getNextBallotTimestamp(this.state.votes, userId, this.state.battleId, this.clock.now()),
+      supersedes: current.id,
+      ...changes
+    });
+
+    this.dispatch({ type: actionType, payload: vote });
+    await this.service.broadcastVote(vote);
+    return vote;
+  }
+
+  private wireEvents(): void {
+    // useP2P: votes arrive already verified
+    this.service.onVoteReceived(voteData => {
+      this.dispatch({ type: 'RECEIVE_VOTE', payload: voteFromMessagePayload(voteData) });
+    });
+
+    // BattleArena: answer sync requests, merge sync responses, greet new peers
+    this.service.setCurrentStateCallback(() => this.state.votes);
+    this.service.setBattleStateCallback(() => this.getBattleTiming());
+    this.service.onSyncReceived(syncData => {
+      if (syncData.battleState) {
+        this.dispatch({ type: 'SYNC_BATTLE_TIMING', payload: syncData.battleState });
+      }
+      if (syncData.votes && syncData.votes.length > 0) {
+        this.dispatch({ type: 'SYNC_VOTES', payload: syncData.votes });
+      }
+    });
+
+    // useTournament: send our bracket with every sync, fold in everyone else's
+    this.service.setBracketCallback(() => this.bracket);
+    this.service.onBracketReceived(bracket => {
+      this.bracket = mergeBrackets(this.bracket, bracket);
+    });
+    this.service.onPeerConnected(peerId => {
+      this.service.sendStateToPeer(peerId, this.state.votes);
+    });
+  }
+}
+
+/**
+ * Create and join several peers one after another
+ */
+export const createRoom = async (
+  network: FakeNetwork,
+  names: string[],
+  config: Partial<P2PServiceConfig> = {}
+): Promise<SimulatedPeer[]> => {
+  const peers: SimulatedPeer[] = [];
+  for (const name of names) {
+    const peer = new SimulatedPeer(name, network, DEFAULT_BATTLE, config);
+    await peer.join();
+    peers.push(peer);
+  }
+  return peers;
+};
+
+/**
+ * Poll until the condition holds, failing the test after timeoutMs
+ */
+export const waitFor = async (
+  condition: () => boolean,
+  timeoutMs: number = 5000,
+  description: string = 'condition'
+): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+/**
+ * Vote counts per Pokemon, ignoring vote order and percentages' rounding
+ */
+export const summarizeResults = (results: VoteResults): Record<string, number> => {
+  const summary: Record<string, number> = {};
+  Object.keys(results).sort().forEach(pokemonName => {
+    summary[pokemonName] = results[pokemonName].count;
+  });
+  return summary;
+};
+
+/**
+ * Whether every peer holds the same vote set and the same results
+ */
+export const hasConverged = (peers: SimulatedPeer[], expectedVotes?: number): boolean => {
+  const [first, ...rest] = peers;
+  const voteIds = (peer: SimulatedPeer) => peer.state.votes.map(vote => vote.id).sort().join(',');
+  const firstSummary = JSON.stringify(summarizeResults(first.results));
+
+  return (expectedVotes === undefined || first.state.votes.length === expectedVotes) &&
+    rest.every(peer =>
+      voteIds(peer) === voteIds(first) &&
+      JSON.stringify(summarizeResults(peer.results)) === firstSummary
+    );
+};
@@ -1,58 +1,215 @@
 // P2P WebRTC and messaging types
 
-import { DataConnection } from 'peerjs';
+import { BattleTiming, Vote, VotingMethod } from './voting';
+import { Bracket } from './tournament';
+import { ProtocolCapability } from '../config/protocol';
 
 export interface P2PMessage {
-  type: 'VOTE' | 'BATTLE_START' | 'PEER_JOIN' | 'PEER_LEAVE' | 'SYNC_REQUEST' | 'SYNC_RESPONSE' | 'HEARTBEAT';
-  payload: any;
+  type: 'HELLO' | 'VOTE' | 'VOTE_CHANGE' | 'VOTE_RETRACT' | 'BATTLE_START' | 'PEER_JOIN' | 'PEER_LEAVE' | 'SYNC_REQUEST' | 'SYNC_RESPONSE' | 'HEARTBEAT' | 'VOTE_ACK' | 'ACK' | 'REDIRECT' | 'BRACKET_UPDATE';
+  // Narrowed by each message type below; checked against its schema on receipt
+  payload: unknown;
   timestamp: number;
   peerId: string;
   messageId: string;
   battleId?: string;
+  // Remaining gossip hops. Forwarded messages keep the origin's peerId and messageId.
+  ttl?: number;
 }
 
+// First message on every channel - carries what the sender's build speaks
+export interface P2PHelloMessage extends P2PMessage {
+  type: 'HELLO';
+  payload: {
+    protocolVersion: number;
+    minProtocolVersion: number;
+    capabilities: string[];
+    appVersion?: string;
+  };
+}
+
+// VOTE_CHANGE replaces the sender's earlier ballot; VOTE_RETRACT carries a tombstone
 export interface P2PVoteMessage extends P2PMessage {
-  type: 'VOTE';
+  type: 'VOTE' | 'VOTE_CHANGE' | 'VOTE_RETRACT';
   payload: {
     pokemonName: string;
     userId: string;
     voteId: string;
+    battleId: string;
     timestamp: number;
+    signerFingerprint: string;
+    publicKey: JsonWebKey;
+    signature: string;
+    retracted?: boolean;
+    supersedes?: string;
+    // Approval and ranked ballots (v11)
+    choices?: string[];
+  };
+}
+
+// Confirms a vote reached the receiver's battle state
+export interface P2PVoteAckMessage extends P2PMessage {
+  type: 'VOTE_ACK';
+  payload: {
+    voteId: string;
+  };
+}
+
+// Transport-level receipt for a reliable message, see RELIABLE_MESSAGE_TYPES
+export interface P2PAckMessage extends P2PMessage {
+  type: 'ACK';
+  payload: {
+    messageId: string;
+  };
+}
+
+// Sent instead of a HELLO by a peer that is at maxConnections
+export interface P2PRedirectMessage extends P2PMessage {
+  type: 'REDIRECT';
+  payload: {
+    peers: string[];
+    reason?: string;
   };
 }
 
 export interface P2PSyncMessage extends P2PMessage {
   type: 'SYNC_REQUEST' | 'SYNC_RESPONSE';
   payload: {
-    votes: Array<{
-      id: string;
-      userId: string;
-      pokemonName: string;
-      battleId: string;
-      timestamp: number;
-    }>;
-    battleState?: {
-      battleId: string;
-      pokemon1Name: string;
-      pokemon2Name: string;
-      startTime: number;
-    };
+    votes: Vote[];
+    battleState?: P2PBattleTiming;
+    // The room's tournament, if it is playing one (v12)
+    bracket?: Bracket;
+  };
+}
+
+// The sender's whole tournament bracket, sent whenever a result is recorded
+export interface P2PBracketMessage extends P2PMessage {
+  type: 'BRACKET_UPDATE';
+  payload: {
+    bracket: Bracket;
+  };
+}
+
+// BattleTiming as synced. Builds before v10 require the first two candidates'
+// names and don't send candidateNames.
+export type P2PBattleTiming = Omit<BattleTiming, 'candidateNames'> & {
+  candidateNames?: string[];
+  pokemon1Name: string;
+  pokemon2Name: string;
+};
+
+export interface P2PPeerJoinMessage extends P2PMessage {
+  type: 'PEER_JOIN';
+  payload: {
+    peerId: string;
+    // Present in the roster host's reply: everyone else currently in the room
+    members?: string[];
+    // Present when announcing ourselves to a directly connected peer
+    displayName?: string;
+    joinedAt?: number;
+  };
+}
+
+export interface P2PPeerLeaveMessage extends P2PMessage {
+  type: 'PEER_LEAVE';
+  payload: {
+    peerId: string;
+    reason?: string;
+  };
+}
+
+// Moves the whole room to a new matchup
+export interface P2PBattleStartMessage extends P2PMessage {
+  type: 'BATTLE_START';
+  payload: {
+    battleId: string;
+    // Every candidate (v10); older builds only read the first two below
+    pokemonIndexes?: number[];
+    pokemon1Index: number;
+    pokemon2Index: number;
+    // Round to follow into (v9); older builds announce the matchup only
+    sessionId?: string;
+    // How the new battle counts ballots (v11); plurality when absent
+    votingMethod?: VotingMethod;
+    startTime: number;
+  };
+}
+
+// A BATTLE_START as the app sees it, whichever build sent it
+export interface BattleAnnouncement {
+  battleId: string;
+  pokemonIndexes: number[];
+  sessionId: string;
+  votingMethod: VotingMethod;
+  startTime: number;
+}
+
+// Liveness probe: a ping is answered with a pong echoing `sentAt`, giving round-trip time
+// and (from v8) the responder's clock
+export interface P2PHeartbeatMessage extends P2PMessage {
+  type: 'HEARTBEAT';
+  payload: {
+    kind: 'ping' | 'pong';
+    sentAt: number;
+    // Pongs only: the responder's local clock, for RoomClock offset samples
+    peerTime?: number;
   };
 }
 
 export interface PeerConnection {
   id: string;
-  connection: DataConnection;
+  connection: VoteChannel;
   connectedAt: number;
   lastSeen: number;
   isReliable: boolean;
   latency?: number;
+  displayName?: string;
+  // Negotiated with the peer's HELLO
+  protocolVersion: number;
+  capabilities: ProtocolCapability[];
+  appVersion?: string;
+}
+
+export type PeerQuality = 'good' | 'fair' | 'poor' | 'stale' | 'unknown';
+
+export interface PeerHealth {
+  peerId: string;
+  displayName?: string;
+  latency?: number;
+  lastSeen: number;
+  connectedAt: number;
+  quality: PeerQuality;
+}
+
+export type VoteDeliveryStatus = 'pending' | 'delivered';
+
+// A vote of ours waiting in (or delivered from) the outbox
+export interface OutboxEntry {
+  vote: Vote;
+  roomId: string;
+  status: VoteDeliveryStatus;
+  queuedAt: number;
+  deliveredAt?: number;
+  deliveredTo?: string;
+}
+
+export interface IncompatiblePeer {
+  id: string;
+  protocolVersion: number;
+  appVersion?: string;
+  detectedAt: number;
+}
+
+export interface ProtocolNegotiation {
+  compatible: boolean;
+  protocolVersion: number;
+  capabilities: ProtocolCapability[];
 }
 
 export interface P2PConnectionState {
   peerId: string;
   isConnected: boolean;
   connectedPeers: Map<string, PeerConnection>;
+  incompatiblePeers: Map<string, IncompatiblePeer>;
   connectionAttempts: number;
   lastConnectionAttempt?: number;
   roomId: string;
@@ -62,21 +219,91 @@ export interface P2PConnectionState {
 
 export interface P2PEventHandlers {
   onVoteReceived: (vote: P2PVoteMessage['payload']) => void;
-  onBattleStarted: (battle: any) => void;
+  onBattleStarted: (battle: BattleAnnouncement) => void;
   onPeerConnected: (peerId: string) => void;
+  onPeerJoined: (peerId: string, displayName?: string) => void;
   onPeerDisconnected: (peerId: string) => void;
+  onPeerIncompatible: (peer: IncompatiblePeer) => void;
+  onPeerHealthChanged: (health: PeerHealth[]) => void;
   onConnectionStatusChanged: (status: P2PStatus) => void;
   onError: (error: string) => void;
-  onSyncReceived: (data: P2PSyncMessage['payload']) => void;
+  onSyncReceived: (data: { votes: Vote[]; battleState?: BattleTiming }) => void;
+  onBracketReceived: (bracket: Bracket) => void;
+  onVoteDeliveryChanged: (voteId: string, status: VoteDeliveryStatus) => void;
 }
 
 export interface P2PServiceConfig {
   maxConnections: number;
   connectionTimeout: number;
   heartbeatInterval: number;
+  // Peers silent for this many heartbeat intervals are evicted
+  staleAfterHeartbeats: number;
   discoveryTimeout: number;
   reconnectAttempts: number;
+  // Base delay for exponential backoff, capped at maxReconnectDelay
   reconnectDelay: number;
+  maxReconnectDelay: number;
+  maxInvalidMessages: number;
+  // Reliable messages are resent if no ACK arrives within ackTimeout
+  ackTimeout: number;
+  maxRetransmits: number;
+  // How many message IDs to remember for duplicate detection
+  seenMessageLimit: number;
+  // Hops a VOTE or SYNC_RESPONSE may travel through the mesh
+  gossipTtl: number;
 }
 
 export type P2PStatus = 'offline' | 'discovering' | 'connecting' | 'connected' | 'error' | 'disconnected';
+
+// Transport layer types - the vote protocol runs over any of these
+
+export type TransportKind = 'peerjs' | 'relay';
+
+// Mirrors PeerJS errors: `type` is 'network', 'server-error', 'unavailable-id', 'peer-unavailable', ...
+export interface TransportError {
+  type?: string;
+  message: string;
+}
+
+// What a peer sends when opening a channel - private rooms add their proof
+export interface ChannelMetadata {
+  roomProof?: string;
+}
+
+export interface VoteConnectOptions {
+  metadata?: ChannelMetadata;
+}
+
+// A bidirectional message channel to a single remote peer
+export interface VoteChannel {
+  readonly peer: string;
+  readonly reliable: boolean;
+  // Whatever the remote side sent when opening the channel - untrusted
+  readonly metadata?: unknown;
+  send(data: unknown): void;
+  close(): void;
+  on(event: 'open' | 'close', handler: () => void): void;
+  on(event: 'data', handler: (data: unknown) => void): void;
+  on(event: 'error', handler: (error: TransportError) => void): void;
+}
+
+export interface VoteTransportEvents {
+  onConnection: (channel: VoteChannel) => void;
+  onDisconnected: () => void;
+  // Registration restored after reconnect()
+  onReconnected: () => void;
+  onClose: () => void;
+  onError: (error: TransportError) => void;
+}
+
+// Registers this browser under a peer ID and opens channels to other peers
+export interface VoteTransport {
+  readonly kind: TransportKind;
+  open(peerId: string, timeoutMs: number): Promise<string>;
+  connect(peerId: string, options?: VoteConnectOptions): VoteChannel;
+  reconnect(): void;
+  destroy(): void;
+  setHandlers(handlers: Partial<VoteTransportEvents>): void;
+  // Peer IDs registered in a room, or null when the broker can't list rooms
+  listRoomPeers(roomId: string): Promise<string[] | null>;
+}
@@ -0,0 +1,51 @@
+// Tournament bracket TypeScript interfaces and types
+
+// Seeds in a single-elimination bracket
+export type BracketSize = 8 | 16 | 32;
+
+export interface BracketSeed {
+  pokemonIndex: number;
+  name: string;
+  displayName: string;
+}
+
+export interface MatchResult {
+  // Which match, see BracketMatch.id
+  matchId: string;
+  // Pokemon index of the winner, who advances
+  winner: number;
+  // Votes for the top and bottom competitor when voting closed
+  votes: [number, number];
+  // Set when votes didn't decide it: the battle's tie-breaker, or the better seed
+  // going through on a tie (or a match nobody voted in)
+  decidedBy?: 'tie-break' | 'seed';
+}
+
+// What peers replicate. Matches and who plays in them are derived from the
+// seeds and results, so every peer agrees on the next match without being told.
+export interface Bracket {
+  id: string;
+  // Best seed first; 8, 16 or 32 of them
+  seeds: BracketSeed[];
+  // Every match is a timed battle of this length
+  matchDurationMs: number;
+  // Room time; when two brackets meet, the later one replaces the earlier
+  createdAt: number;
+  results: MatchResult[];
+}
+
+export interface BracketCompetitor extends BracketSeed {
+  // 1 for the top seed
+  seed: number;
+}
+
+export interface BracketMatch {
+  // r<round>m<index>, e.g. r0m3 - also part of the match's battle session
+  id: string;
+  // 0 for the first round
+  round: number;
+  index: number;
+  // Top and bottom of the match; null until the feeding match is decided
+  competitors: [BracketCompetitor | null, BracketCompetitor | null];
+  result?: MatchResult;
+}
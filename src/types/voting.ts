@@ -6,6 +6,17 @@ export interface Vote {
   pokemonName: string;
   battleId: string;
   timestamp: number;
+  // Signature over the vote by the voter's per-browser ECDSA key
+  signerFingerprint?: string;
+  publicKey?: JsonWebKey;
+  signature?: string;
+  // Tombstone: the user withdrew their ballot (signed, so it can't be forged)
+  retracted?: boolean;
+  // ID of the ballot this one replaces - a display hint only, ordering is by timestamp
+  supersedes?: string;
+  // Approval and ranked ballots: every Pokemon approved, or the preference
+  // order. pokemonName is always the first of them; plurality ballots omit it.
+  choices?: string[];
 }
 
 export interface VoteData {
@@ -15,6 +26,31 @@ export interface VoteData {
   timestamp: number;
 }
 
+// How ballots are counted:
+// - plurality: one Pokemon per ballot, the most votes wins
+// - approval: a ballot approves any number of Pokemon, the most approvals wins
+// - ranked: a ballot ranks Pokemon in order; instant-runoff eliminates the
+//   weakest until one holds a majority of the ballots still in play
+export type VotingMethod = 'plurality' | 'approval' | 'ranked';
+
+// What each method's ballot says, read out of a Vote
+export interface PluralityBallot {
+  method: 'plurality';
+  pokemonName: string;
+}
+
+export interface ApprovalBallot {
+  method: 'approval';
+  approved: string[];
+}
+
+export interface RankedBallot {
+  method: 'ranked';
+  preferences: string[];
+}
+
+export type Ballot = PluralityBallot | ApprovalBallot | RankedBallot;
+
 export interface VoteResults {
   [pokemonName: string]: {
     count: number;
@@ -23,18 +59,87 @@ export interface VoteResults {
   };
 }
 
+// How a tie on votes is settled:
+// - earliest-to-reach: whoever got to the tied count first
+// - sudden-death: a timed battle gets extra rounds of voting until the tie breaks
+// - base-stats: the Pokemon with the higher base-stat total
+export type TieBreakMode = 'none' | 'earliest-to-reach' | 'sudden-death' | 'base-stats';
+
+export interface TieBreakOptions {
+  mode: TieBreakMode;
+  baseStatTotals?: Record<string, number>;
+}
+
+// One count of an instant-runoff tally
+export interface RunoffRound {
+  // First remaining preference of each ballot, per Pokemon still in the race
+  counts: Record<string, number>;
+  // Knocked out after this round; absent from the final round
+  eliminated?: string;
+  // Ballots whose every preference has been eliminated
+  exhausted: number;
+}
+
+export interface VoteTally {
+  results: VoteResults;
+  // Ranked battles only
+  rounds?: RunoffRound[];
+}
+
+export interface RankedPokemon {
+  pokemonName: string;
+  count: number;
+  percentage: number;
+  // Competition ranking - tied entries share a rank (1, 1, 3)
+  rank: number;
+}
+
+export type BattleOutcome =
+  | { kind: 'no-votes'; ranking: RankedPokemon[] }
+  // decidedBy is set when the top vote count was tied and a tie-breaker settled it
+  | { kind: 'winner'; winner: string; ranking: RankedPokemon[]; decidedBy?: TieBreakMode }
+  | { kind: 'tie'; tiedPokemon: string[]; ranking: RankedPokemon[] };
+
 export interface BattleState {
   battleId: string;
-  pokemon1Name: string;
-  pokemon2Name: string;
+  // Every Pokemon in the battle, in display order
+  candidateNames: string[];
   votes: Vote[];
+  votingMethod: VotingMethod;
   results: VoteResults;
+  // Instant-runoff rounds behind the results of a ranked battle
+  runoffRounds?: RunoffRound[];
   hasUserVoted: boolean;
   userVote?: Vote;
+  outcome: BattleOutcome;
+  // The outcome's winner, or null for no votes or a tie
   winner?: string | null;
   totalVotes: number;
   isActive: boolean;
+  // Room time (see RoomClock), so every peer counts down to the same moment
+  startTime: number;
+  // Voting closes at endTime; untimed battles have neither
+  durationMs?: number;
+  endTime?: number;
+  // endTime plus any sudden-death rounds - when voting actually closes
+  closesAt?: number;
+  status: BattleStatus;
+  tieBreak: TieBreakMode;
+  suddenDeathMs?: number;
+  // Keyed by Pokemon name, for the base-stats tie-breaker
+  baseStatTotals?: Record<string, number>;
+}
+
+// 'completed' battles are closed for voting and their results are final
+export type BattleStatus = 'idle' | 'active' | 'completed';
+
+// What peers exchange to agree on when a battle closes. In room time; peers
+// adopt the earliest start they hear of.
+export interface BattleTiming {
+  battleId: string;
+  candidateNames: string[];
   startTime: number;
+  endTime?: number;
 }
 
 export interface User {
@@ -46,6 +151,6 @@ export interface User {
 export type VotingStatus = 'idle' | 'voting' | 'voted' | 'disabled';
 
 export interface VotingAction {
-  type: 'CAST_VOTE' | 'RECEIVE_VOTE' | 'START_BATTLE' | 'RESET_BATTLE' | 'SET_USER_VOTE_STATUS' | 'SYNC_VOTES';
+  type: 'CAST_VOTE' | 'CHANGE_VOTE' | 'RETRACT_VOTE' | 'RECEIVE_VOTE' | 'START_BATTLE' | 'RESET_BATTLE' | 'SET_USER_VOTE_STATUS' | 'SYNC_VOTES' | 'SYNC_BATTLE_TIMING' | 'END_BATTLE';
   payload?: any;
 }
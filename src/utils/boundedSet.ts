@@ -0,0 +1,34 @@
+// Insertion-ordered set that forgets its oldest entries past a size limit
+
+export class BoundedSet<T> {
+  private readonly values = new Set<T>();
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Add a value. Returns false if it was already present.
+   */
+  add(value: T): boolean {
+    if (this.values.has(value)) {
+      return false;
+    }
+
+    this.values.add(value);
+    if (this.values.size > this.limit) {
+      // Sets iterate in insertion order, so the first value is the oldest
+      const oldest = this.values.values().next().value as T;
+      this.values.delete(oldest);
+    }
+    return true;
+  }
+
+  has(value: T): boolean {
+    return this.values.has(value);
+  }
+
+  clear(): void {
+    this.values.clear();
+  }
+}
+
+export default BoundedSet;
@@ -0,0 +1,109 @@
+import { Bracket, BracketSeed, MatchResult } from '../types/tournament';
+import { Vote } from '../types/voting';
+import {
+  createBracket,
+  findMatchBySession,
+  getBracketRounds,
+  getChampion,
+  getCurrentMatch,
+  getMatchResult,
+  getMatchSessionId,
+  getSeedOrder,
+  mergeBrackets,
+  recordMatchResult
+} from './bracketHelpers';
+import { calculateVoteResults, determineWinner } from './votingHelpers';
+
+const seeds = (count: number): BracketSeed[] =>
+  Array.from({ length: count }, (_, offset) => ({
+    pokemonIndex: offset + 1,
+    name: `pokemon${offset + 1}`,
+    displayName: `Pokemon ${offset + 1}`
+  }));
+
+const vote = (pokemonName: string, timestamp: number): Vote => ({
+  id: `vote_${timestamp}`,
+  userId: `user_${timestamp}`,
+  pokemonName,
+  battleId: 'battle_1_vs_8',
+  timestamp
+});
+
+/**
+ * Decide every match the bracket is waiting on, the top competitor winning
+ */
+const playOut = (bracket: Bracket): Bracket => {
+  let next = bracket;
+  for (let match = getCurrentMatch(next); match; match = getCurrentMatch(next)) {
+    next = recordMatchResult(next, { matchId: match.id, winner: match.competitors[0]!.pokemonIndex, votes: [1, 0] });
+  }
+  return next;
+};
+
+test('seeds are laid out so the top seeds can only meet late', () => {
+  expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+
+  const order = getSeedOrder(32);
+  expect(order.slice(0, 2)).toEqual([1, 32]);
+  // 1 and 2 start in opposite halves, so the earliest they can meet is the final
+  expect(order.indexOf(1) < 16).toBe(true);
+  expect(order.indexOf(2) >= 16).toBe(true);
+});
+
+test('winners advance match by match until there is a champion', () => {
+  const bracket = createBracket(seeds(8), 60000, 1000);
+  expect(getCurrentMatch(bracket)?.id).toBe('r0m0');
+
+  const afterOne = recordMatchResult(bracket, { matchId: 'r0m0', winner: 8, votes: [2, 3] });
+  expect(getCurrentMatch(afterOne)?.id).toBe('r0m1');
+  expect(getBracketRounds(afterOne)[1][0].competitors.map(competitor => competitor?.seed)).toEqual([8, undefined]);
+
+  const finished = playOut(afterOne);
+  expect(getBracketRounds(finished).map(round => round.length)).toEqual([4, 2, 1]);
+  expect(getCurrentMatch(finished)).toBeNull();
+  expect(getChampion(finished)).toMatchObject({ pokemonIndex: 8, seed: 8 });
+
+  // Every match has its own session, which leads back to the match
+  const final = getBracketRounds(finished)[2][0];
+  expect(findMatchBySession(finished, getMatchSessionId(finished, final))?.id).toBe('r2m0');
+});
+
+test('a tied or empty match sends the better seed through', () => {
+  const match = getCurrentMatch(createBracket(seeds(8), 60000, 1000))!;
+
+  const tie = determineWinner(calculateVoteResults([vote('pokemon8', 1), vote('pokemon1', 2)]));
+  expect(getMatchResult(match, tie)).toEqual({ matchId: 'r0m0', winner: 1, votes: [1, 1], decidedBy: 'seed' });
+
+  const empty = determineWinner(calculateVoteResults([]));
+  expect(getMatchResult(match, empty)).toMatchObject({ winner: 1, votes: [0, 0], decidedBy: 'seed' });
+
+  const upset = determineWinner(calculateVoteResults([vote('pokemon8', 1)]));
+  expect(getMatchResult(match, upset)).toEqual({ matchId: 'r0m0', winner: 8, votes: [0, 1] });
+});
+
+test('conflicting results merge the same way in either order and drop what no longer fits', () => {
+  const bracket = createBracket(seeds(8), 60000, 1000);
+  const early: MatchResult = { matchId: 'r0m0', winner: 1, votes: [1, 0] };
+  const late: MatchResult = { matchId: 'r0m0', winner: 8, votes: [1, 2] };
+
+  // One peer closed the first match early and carried seed 1 into round two
+  const hasty = playOut(recordMatchResult(bracket, early));
+  // Another counted more votes, which put seed 8 through instead
+  const thorough = recordMatchResult(bracket, late);
+
+  const merged = mergeBrackets(hasty, thorough);
+  expect(mergeBrackets(thorough, hasty)).toEqual(merged);
+  expect(merged.results.find(result => result.matchId === 'r0m0')).toEqual(late);
+  // Seed 1's later matches no longer fit and are played again; the other semi-final stands
+  expect(merged.results.map(result => result.matchId)).toEqual(['r0m0', 'r0m1', 'r0m2', 'r0m3', 'r1m1']);
+  expect(getCurrentMatch(merged)?.id).toBe('r1m0');
+  expect(mergeBrackets(merged, thorough)).toBe(merged);
+});
+
+test('a newer bracket replaces an older one', () => {
+  const older = playOut(createBracket(seeds(8), 60000, 1000));
+  const newer = createBracket(seeds(16), 60000, 2000);
+
+  expect(mergeBrackets(older, newer)).toEqual(newer);
+  expect(mergeBrackets(newer, older)).toBe(newer);
+});
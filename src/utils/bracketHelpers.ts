@@ -0,0 +1,277 @@
+// Single-elimination tournament brackets
+//
+// A bracket is its seeds plus the result of every match played so far. Who
+// meets whom, which match is next and the session each match's battle runs
+// in all follow from those, so peers holding the same results move through
+// the tournament in step without announcing anything.
+//
+// Brackets merge like the vote set: results are keyed by match, a conflicting
+// pair of results for one match is settled by a fixed order, and results that
+// no longer fit the bracket (their match's competitors changed) are dropped.
+// Merging in any order gives every peer the same bracket.
+
+import { BattleOutcome } from '../types/voting';
+import {
+  Bracket,
+  BracketCompetitor,
+  BracketMatch,
+  BracketSeed,
+  BracketSize,
+  MatchResult
+} from '../types/tournament';
+
+export const BRACKET_SIZES: BracketSize[] = [8, 16, 32];
+
+const BRACKET_ID_PATTERN = /^[a-z0-9]{8}$/;
+
+export const isBracketSize = (size: number): size is BracketSize => {
+  return (BRACKET_SIZES as number[]).includes(size);
+};
+
+/**
+ * Seed numbers in bracket order, so the top seeds can only meet late:
+ * 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight seeds
+ */
+export const getSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const slots = order.length * 2;
+    order = order.flatMap(seed => [seed, slots + 1 - seed]);
+  }
+  return order;
+};
+
+/**
+ * Start a bracket. Seeds come best first.
+ */
+export const createBracket = (seeds: BracketSeed[], matchDurationMs: number, createdAt: number): Bracket => {
+  if (!isBracketSize(seeds.length)) {
+    throw new Error(`A bracket needs 8, 16 or 32 seeds, not ${seeds.length}`);
+  }
+
+  return {
+    id: Math.random().toString(36).substring(2, 10).padEnd(8, '0'),
+    seeds,
+    matchDurationMs,
+    createdAt,
+    results: []
+  };
+};
+
+/**
+ * Whether a bracket received from a peer is well formed
+ */
+export const isValidBracket = (bracket: Bracket): boolean => {
+  const indexes = bracket.seeds.map(seed => seed.pokemonIndex);
+  return BRACKET_ID_PATTERN.test(bracket.id) &&
+    isBracketSize(bracket.seeds.length) &&
+    new Set(indexes).size === indexes.length &&
+    bracket.matchDurationMs > 0 &&
+    bracket.results.every(result => result.votes.length === 2);
+};
+
+const getMatchId = (round: number, index: number): string => `r${round}m${index}`;
+
+/**
+ * The winner of a decided match, as a competitor
+ */
+const getWinner = (match: BracketMatch): BracketCompetitor | null => {
+  if (!match.result) {
+    return null;
+  }
+  return match.competitors.find(competitor => competitor?.pokemonIndex === match.result?.winner) ?? null;
+};
+
+/**
+ * Lay out every round of the bracket, first round first, filling in
+ * competitors and results as far as the results go. Results that don't fit
+ * (an unknown match, or a winner who isn't playing in it) are ignored.
+ */
+export const getBracketRounds = (bracket: Bracket): BracketMatch[][] => {
+  const resultsById = new Map(bracket.results.map(result => [result.matchId, result]));
+  const competitors = getSeedOrder(bracket.seeds.length)
+    .map(seed => ({ ...bracket.seeds[seed - 1], seed }));
+
+  const rounds: BracketMatch[][] = [];
+  let entrants: Array<BracketCompetitor | null> = competitors;
+  for (let round = 0; entrants.length > 1; round++) {
+    const matches: BracketMatch[] = [];
+    for (let index = 0; index < entrants.length / 2; index++) {
+      const match: BracketMatch = {
+        id: getMatchId(round, index),
+        round,
+        index,
+        competitors: [entrants[index * 2], entrants[index * 2 + 1]]
+      };
+      const result = resultsById.get(match.id);
+      const [top, bottom] = match.competitors;
+      if (result && top && bottom && (result.winner === top.pokemonIndex || result.winner === bottom.pokemonIndex)) {
+        match.result = result;
+      }
+      matches.push(match);
+    }
+    rounds.push(matches);
+    entrants = matches.map(getWinner);
+  }
+
+  return rounds;
+};
+
+/**
+ * The next match to play - the first undecided one in play order - or null
+ * once the final is decided
+ */
+export const getCurrentMatch = (bracket: Bracket): BracketMatch | null => {
+  for (const round of getBracketRounds(bracket)) {
+    const match = round.find(candidate => !candidate.result);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+};
+
+/**
+ * The tournament's winner, once the final is decided
+ */
+export const getChampion = (bracket: Bracket): BracketCompetitor | null => {
+  const rounds = getBracketRounds(bracket);
+  return getWinner(rounds[rounds.length - 1][0]);
+};
+
+/**
+ * Battle session of a match: every peer derives the same one, so they all
+ * meet in the match's room
+ */
+export const getMatchSessionId = (bracket: Bracket, match: BracketMatch): string => {
+  return `${bracket.id}${match.id}`;
+};
+
+/**
+ * The match a battle session belongs to, if it is one of this bracket's
+ */
+export const findMatchBySession = (bracket: Bracket, sessionId: string): BracketMatch | null => {
+  if (!sessionId.startsWith(bracket.id)) {
+    return null;
+  }
+
+  const matchId = sessionId.substring(bracket.id.length);
+  for (const round of getBracketRounds(bracket)) {
+    const match = round.find(candidate => candidate.id === matchId);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+};
+
+/**
+ * Turn a match's closed battle into its result. A tie or a match without
+ * votes sends the better seed through.
+ */
+export const getMatchResult = (match: BracketMatch, outcome: BattleOutcome): MatchResult => {
+  const [top, bottom] = match.competitors;
+  if (!top || !bottom) {
+    throw new Error(`Match ${match.id} has no opponents yet`);
+  }
+
+  const countFor = (competitor: BracketCompetitor) =>
+    outcome.ranking.find(entry => entry.pokemonName === competitor.name)?.count ?? 0;
+  const votes: [number, number] = [countFor(top), countFor(bottom)];
+
+  if (outcome.kind === 'winner') {
+    const winner = [top, bottom].find(competitor => competitor.name === outcome.winner);
+    if (winner) {
+      return outcome.decidedBy
+        ? { matchId: match.id, winner: winner.pokemonIndex, votes, decidedBy: 'tie-break' }
+        : { matchId: match.id, winner: winner.pokemonIndex, votes };
+    }
+  }
+
+  const betterSeed = top.seed < bottom.seed ? top : bottom;
+  return { matchId: match.id, winner: betterSeed.pokemonIndex, votes, decidedBy: 'seed' };
+};
+
+/**
+ * Order between two results for the same match: the one with more votes
+ * counted first, then any fixed order so every peer picks the same one
+ */
+const compareResults = (a: MatchResult, b: MatchResult): number => {
+  const totalA = a.votes[0] + a.votes[1];
+  const totalB = b.votes[0] + b.votes[1];
+  if (totalA !== totalB) {
+    return totalB - totalA;
+  }
+  if (a.winner !== b.winner) {
+    return a.winner - b.winner;
+  }
+  if (a.votes[0] !== b.votes[0]) {
+    return b.votes[0] - a.votes[0];
+  }
+  return (a.decidedBy ?? '').localeCompare(b.decidedBy ?? '');
+};
+
+/**
+ * Keep only the results that fit the bracket, in play order
+ */
+const withFittingResults = (bracket: Bracket, results: MatchResult[]): Bracket => {
+  const candidate = { ...bracket, results };
+  const fitting = getBracketRounds(candidate)
+    .flat()
+    .flatMap(match => (match.result ? [match.result] : []));
+  return { ...bracket, results: fitting };
+};
+
+/**
+ * Record a match's result. A match already decided keeps its result unless
+ * the new one takes precedence (see compareResults).
+ */
+export const recordMatchResult = (bracket: Bracket, result: MatchResult): Bracket => {
+  return mergeBrackets(bracket, { ...bracket, results: [result] });
+};
+
+/**
+ * Merge a bracket from a peer into ours. A different bracket replaces ours
+ * if it was created later (ties broken by ID). Returns `local` itself when
+ * nothing changed.
+ */
+export const mergeBrackets = (local: Bracket | null, incoming: Bracket): Bracket => {
+  if (!local) {
+    return withFittingResults(incoming, incoming.results);
+  }
+  if (incoming.id !== local.id) {
+    const incomingIsNewer = incoming.createdAt !== local.createdAt
+      ? incoming.createdAt > local.createdAt
+      : incoming.id > local.id;
+    return incomingIsNewer ? withFittingResults(incoming, incoming.results) : local;
+  }
+
+  const best = new Map<string, MatchResult>();
+  [...local.results, ...incoming.results].forEach(result => {
+    const current = best.get(result.matchId);
+    if (!current || compareResults(result, current) < 0) {
+      best.set(result.matchId, result);
+    }
+  });
+
+  const merged = withFittingResults(local, Array.from(best.values()));
+  const unchanged = merged.results.length === local.results.length &&
+    merged.results.every((result, index) => result === local.results[index]);
+  return unchanged ? local : merged;
+};
+
+/**
+ * Name of a round from how many matches it has
+ */
+export const getRoundName = (matchCount: number): string => {
+  switch (matchCount) {
+    case 1:
+      return 'Final';
+    case 2:
+      return 'Semi-finals';
+    case 4:
+      return 'Quarter-finals';
+    default:
+      return `Round of ${matchCount * 2}`;
+  }
+};
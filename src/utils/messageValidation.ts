@@ -0,0 +1,222 @@
+// Runtime schema validation for inbound P2P messages
+//
+// Every message type declares a payload schema built from the small validator
+// combinators below. Unknown extra fields are allowed so newer peers can add
+// data without breaking older ones; missing or mistyped fields are not.
+
+import { P2PMessage } from '../types/p2p';
+import { MAX_BATTLE_CANDIDATES, VOTING_METHODS } from './votingHelpers';
+import { BRACKET_SIZES } from './bracketHelpers';
+
+type Validator = (value: unknown, path: string) => string | null;
+
+export type MessageValidationResult =
+  | { valid: true; message: P2PMessage }
+  | { valid: false; error: string };
+
+const MAX_STRING_LENGTH = 1024;
+const MAX_SYNC_VOTES = 10000;
+const MAX_ROSTER_MEMBERS = 1000;
+const MAX_CAPABILITIES = 64;
+const MAX_REDIRECT_PEERS = 32;
+const MAX_BRACKET_SEEDS = Math.max(...BRACKET_SIZES);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const string = (maxLength: number = MAX_STRING_LENGTH): Validator => (value, path) => {
+  if (typeof value !== 'string' || value.length === 0) return `${path} must be a non-empty string`;
+  if (value.length > maxLength) return `${path} is longer than ${maxLength} characters`;
+  return null;
+};
+
+const number = ({ integer = false, min = -Infinity } = {}): Validator => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a finite number`;
+  if (integer && !Number.isInteger(value)) return `${path} must be an integer`;
+  if (value < min) return `${path} must be at least ${min}`;
+  return null;
+};
+
+const oneOf = (allowed: string[]): Validator => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) return `${path} must be one of ${allowed.join(', ')}`;
+  return null;
+};
+
+const isTrue: Validator = (value, path) => {
+  return value === true ? null : `${path} must be true`;
+};
+
+const boolean: Validator = (value, path) => {
+  return typeof value === 'boolean' ? null : `${path} must be true or false`;
+};
+
+const optional = (validator: Validator): Validator => (value, path) => {
+  return value === undefined ? null : validator(value, path);
+};
+
+const arrayOf = (item: Validator, maxLength: number): Validator => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  if (value.length > maxLength) return `${path} has more than ${maxLength} entries`;
+  for (let i = 0; i < value.length; i++) {
+    const error = item(value[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const object = (fields: Record<string, Validator>): Validator => (value, path) => {
+  if (!isPlainObject(value)) return `${path} must be an object`;
+  for (const [key, validator] of Object.entries(fields)) {
+    const error = validator(value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const timestamp = number({ min: 1 });
+
+const publicKey = object({
+  kty: string(16),
+  crv: string(16),
+  x: string(),
+  y: string(),
+});
+
+const vote = object({
+  id: string(),
+  userId: string(),
+  pokemonName: string(),
+  battleId: string(),
+  timestamp,
+  signerFingerprint: optional(string()),
+  publicKey: optional(publicKey),
+  signature: optional(string()),
+  retracted: optional(boolean),
+  supersedes: optional(string()),
+  choices: optional(arrayOf(string(), MAX_BATTLE_CANDIDATES)),
+});
+
+const voteMessagePayload = (overrides: Record<string, Validator> = {}): Validator => object({
+  pokemonName: string(),
+  userId: string(),
+  voteId: string(),
+  battleId: string(),
+  timestamp,
+  signerFingerprint: string(),
+  publicKey,
+  signature: string(),
+  retracted: optional(boolean),
+  supersedes: optional(string()),
+  choices: optional(arrayOf(string(), MAX_BATTLE_CANDIDATES)),
+  ...overrides,
+});
+
+const bracket = object({
+  id: string(16),
+  seeds: arrayOf(object({
+    pokemonIndex: number({ integer: true, min: 1 }),
+    name: string(64),
+    displayName: string(64),
+  }), MAX_BRACKET_SEEDS),
+  matchDurationMs: number({ integer: true, min: 1 }),
+  createdAt: timestamp,
+  results: arrayOf(object({
+    matchId: string(16),
+    winner: number({ integer: true, min: 1 }),
+    votes: arrayOf(number({ integer: true, min: 0 }), 2),
+    decidedBy: optional(oneOf(['tie-break', 'seed'])),
+  }), MAX_BRACKET_SEEDS - 1),
+});
+
+const syncPayload = object({
+  votes: arrayOf(vote, MAX_SYNC_VOTES),
+  bracket: optional(bracket),
+  battleState: optional(object({
+    battleId: string(),
+    candidateNames: optional(arrayOf(string(), MAX_BATTLE_CANDIDATES)),
+    pokemon1Name: string(),
+    pokemon2Name: string(),
+    startTime: timestamp,
+    endTime: optional(timestamp),
+  })),
+});
+
+// Declared payload schema for every message type
+const payloadSchemas: Record<P2PMessage['type'], Validator> = {
+  HELLO: object({
+    protocolVersion: number({ integer: true, min: 1 }),
+    minProtocolVersion: number({ integer: true, min: 1 }),
+    capabilities: arrayOf(string(64), MAX_CAPABILITIES),
+    appVersion: optional(string(64)),
+  }),
+  VOTE: voteMessagePayload(),
+  VOTE_CHANGE: voteMessagePayload({ supersedes: string() }),
+  VOTE_RETRACT: voteMessagePayload({ retracted: isTrue, supersedes: optional(string()) }),
+  SYNC_REQUEST: syncPayload,
+  SYNC_RESPONSE: syncPayload,
+  HEARTBEAT: object({
+    kind: oneOf(['ping', 'pong']),
+    sentAt: timestamp,
+    peerTime: optional(timestamp),
+  }),
+  VOTE_ACK: object({
+    voteId: string(),
+  }),
+  ACK: object({
+    messageId: string(),
+  }),
+  REDIRECT: object({
+    peers: arrayOf(string(), MAX_REDIRECT_PEERS),
+    reason: optional(string()),
+  }),
+  PEER_JOIN: object({
+    peerId: string(),
+    members: optional(arrayOf(string(), MAX_ROSTER_MEMBERS)),
+    displayName: optional(string(64)),
+    joinedAt: optional(timestamp),
+  }),
+  PEER_LEAVE: object({
+    peerId: string(),
+    reason: optional(string()),
+  }),
+  BATTLE_START: object({
+    battleId: string(),
+    pokemonIndexes: optional(arrayOf(number({ integer: true, min: 1 }), MAX_BATTLE_CANDIDATES)),
+    pokemon1Index: number({ integer: true, min: 1 }),
+    pokemon2Index: number({ integer: true, min: 1 }),
+    sessionId: optional(string(32)),
+    votingMethod: optional(oneOf(VOTING_METHODS)),
+    startTime: timestamp,
+  }),
+  BRACKET_UPDATE: object({ bracket }),
+};
+
+const envelope = object({
+  timestamp,
+  peerId: string(),
+  messageId: string(),
+  battleId: optional(string()),
+  ttl: optional(number({ integer: true, min: 0 })),
+});
+
+/**
+ * Check that inbound data is a well-formed P2P message
+ */
+export const validateP2PMessage = (data: unknown): MessageValidationResult => {
+  if (!isPlainObject(data)) {
+    return { valid: false, error: 'message must be an object' };
+  }
+
+  const type = data.type as P2PMessage['type'];
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(payloadSchemas, type)) {
+    return { valid: false, error: `unknown message type "${String(data.type)}"` };
+  }
+
+  const error = envelope(data, 'message') || payloadSchemas[type](data.payload, 'payload');
+  if (error) {
+    return { valid: false, error: `${type}: ${error}` };
+  }
+
+  return { valid: true, message: data as unknown as P2PMessage };
+};
@@ -0,0 +1,217 @@
+// Helper functions for P2P identifiers and message payloads
+
+import {
+  P2PBattleStartMessage,
+  P2PBattleTiming,
+  P2PHelloMessage,
+  P2PVoteMessage,
+  BattleAnnouncement,
+  PeerQuality,
+  ProtocolNegotiation
+} from '../types/p2p';
+import { BattleTiming, Vote, VotingMethod } from '../types/voting';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION
+} from '../config/protocol';
+import { generateBattleId } from './votingHelpers';
+
+/**
+ * Generate deterministic room ID from the candidates' indexes, the battle
+ * session and its voting method. Private rooms add the tag derived from
+ * their invite code.
+ */
+export const generateRoomId = (
+  pokemonIndexes: number[],
+  sessionId: string,
+  votingMethod: VotingMethod = 'plurality',
+  privateRoomTag?: string
+): string => {
+  // '-' rather than '_', so builds without sessions never match these rooms by prefix
+  const roomId = generateBattleId(pokemonIndexes, sessionId, votingMethod);
+  return privateRoomTag ? `${roomId}-p${privateRoomTag}` : roomId;
+};
+
+/**
+ * Generate a collision-resistant peer ID inside a room
+ */
+export const generatePeerId = (roomId: string): string => {
+  const timestamp = Date.now().toString(36);
+  const randomStr = Math.random().toString(36).substring(2, 10);
+  return `${roomId}_${timestamp}${randomStr}`;
+};
+
+/**
+ * Well-known ID claimed by the room's roster host
+ */
+export const getRosterSlotId = (roomId: string): string => {
+  return `${roomId}_roster`;
+};
+
+/**
+ * Check whether a peer ID belongs to the given room
+ */
+export const isPeerInRoom = (peerId: string, roomId: string): boolean => {
+  return peerId.startsWith(`${roomId}_`) && peerId !== getRosterSlotId(roomId);
+};
+
+const DISPLAY_NAME_KEY = 'pokemon_battle_display_name';
+
+/**
+ * Get this browser's display name for join announcements, creating one on first use
+ */
+export const getDisplayName = (): string => {
+  try {
+    const stored = localStorage.getItem(DISPLAY_NAME_KEY);
+    if (stored) return stored;
+
+    const displayName = `Trainer ${Math.floor(1000 + Math.random() * 9000)}`;
+    localStorage.setItem(DISPLAY_NAME_KEY, displayName);
+    return displayName;
+  } catch (error) {
+    return 'Trainer';
+  }
+};
+
+/**
+ * Generate unique message ID
+ */
+export const generateMessageId = (): string => {
+  return `msg_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+};
+
+/**
+ * Convert a signed vote into a VOTE message payload
+ */
+export const voteToMessagePayload = (vote: Vote): P2PVoteMessage['payload'] => {
+  if (!vote.signature || !vote.publicKey || !vote.signerFingerprint) {
+    throw new Error(`Vote ${vote.id} is not signed`);
+  }
+
+  return {
+    pokemonName: vote.pokemonName,
+    userId: vote.userId,
+    voteId: vote.id,
+    battleId: vote.battleId,
+    timestamp: vote.timestamp,
+    signerFingerprint: vote.signerFingerprint,
+    publicKey: vote.publicKey,
+    signature: vote.signature,
+    ...(vote.retracted && { retracted: true }),
+    ...(vote.supersedes && { supersedes: vote.supersedes }),
+    ...(vote.choices && { choices: vote.choices })
+  };
+};
+
+/**
+ * Convert a vote message payload back into a vote
+ */
+export const voteFromMessagePayload = (payload: P2PVoteMessage['payload']): Vote => {
+  return {
+    id: payload.voteId,
+    userId: payload.userId,
+    pokemonName: payload.pokemonName,
+    battleId: payload.battleId,
+    timestamp: payload.timestamp,
+    signerFingerprint: payload.signerFingerprint,
+    publicKey: payload.publicKey,
+    signature: payload.signature,
+    ...(payload.retracted && { retracted: true }),
+    ...(payload.supersedes && { supersedes: payload.supersedes }),
+    ...(payload.choices && { choices: payload.choices })
+  };
+};
+
+/**
+ * Convert battle timing for a sync. Builds before v10 require the first two
+ * candidates' names.
+ */
+export const battleTimingToPayload = (timing: BattleTiming): P2PBattleTiming => {
+  const { candidateNames, ...rest } = timing;
+  return {
+    ...rest,
+    candidateNames,
+    pokemon1Name: candidateNames[0] ?? '',
+    pokemon2Name: candidateNames[1] ?? ''
+  };
+};
+
+/**
+ * Convert a sync's battle timing back, filling in the candidates older builds leave out
+ */
+export const battleTimingFromPayload = (payload: P2PBattleTiming): BattleTiming => {
+  return {
+    battleId: payload.battleId,
+    candidateNames: payload.candidateNames ?? [payload.pokemon1Name, payload.pokemon2Name],
+    startTime: payload.startTime,
+    ...(payload.endTime !== undefined && { endTime: payload.endTime })
+  };
+};
+
+/**
+ * Read a BATTLE_START into the battle to follow. Builds before v10 only name
+ * two candidates, and before v9 no session.
+ */
+export const battleAnnouncementFromPayload = (payload: P2PBattleStartMessage['payload']): BattleAnnouncement => {
+  return {
+    battleId: payload.battleId,
+    pokemonIndexes: payload.pokemonIndexes ?? [payload.pokemon1Index, payload.pokemon2Index],
+    // Everyone following an older build's announcement derives the same session
+    sessionId: payload.sessionId ?? payload.startTime.toString(36),
+    votingMethod: payload.votingMethod ?? 'plurality',
+    startTime: payload.startTime
+  };
+};
+
+/**
+ * Work out which protocol version and capabilities to use with a peer.
+ * A missing HELLO means the peer predates versioning.
+ */
+export const negotiateProtocol = (hello: P2PHelloMessage['payload'] | null): ProtocolNegotiation => {
+  const theirVersion = hello ? hello.protocolVersion : LEGACY_PROTOCOL_VERSION;
+  const theirMinimum = hello ? hello.minProtocolVersion : LEGACY_PROTOCOL_VERSION;
+  const protocolVersion = Math.min(PROTOCOL_VERSION, theirVersion);
+
+  return {
+    compatible: protocolVersion >= MIN_PROTOCOL_VERSION && protocolVersion >= theirMinimum,
+    protocolVersion,
+    capabilities: PROTOCOL_CAPABILITIES.filter(capability => hello?.capabilities.includes(capability)),
+  };
+};
+
+/**
+ * Classify a peer's connection quality from its round-trip time and last activity
+ */
+export const classifyPeerQuality = (
+  latency: number | undefined,
+  lastSeen: number,
+  heartbeatInterval: number,
+  now: number = Date.now()
+): PeerQuality => {
+  // One missed heartbeat (plus slack) is already worth flagging
+  if (now - lastSeen > heartbeatInterval * 1.5) return 'stale';
+  if (latency === undefined) return 'unknown';
+  if (latency < 150) return 'good';
+  if (latency < 400) return 'fair';
+  return 'poor';
+};
+
+/**
+ * Average round-trip time across peers with a measurement
+ */
+export const getAverageLatency = (latencies: Array<number | undefined>): number | undefined => {
+  const measured = latencies.filter((latency): latency is number => latency !== undefined);
+  if (measured.length === 0) return undefined;
+  return Math.round(measured.reduce((sum, latency) => sum + latency, 0) / measured.length);
+};
+
+/**
+ * Exponential backoff delay for a retry attempt (1-based), with jitter so
+ * peers that lost the network together don't all retry in lockstep
+ */
+export const getBackoffDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+};
@@ -0,0 +1,91 @@
+// Private room helpers - invite codes and the proofs derived from them
+//
+// A private room's invite code travels only in the share link (the URL's `k`
+// parameter). Peer IDs are visible to the signalling server and anyone who
+// lists it, so the room ID carries a hash of the code rather than the code
+// itself, and every channel into the room must present a proof (an HMAC of the
+// room ID keyed with the code) in its connection metadata.
+
+import { ChannelMetadata } from '../types/p2p';
+
+// No 0/o or 1/l, so a code read aloud or off a projector survives
+const INVITE_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const INVITE_CODE_LENGTH = 10;
+
+export const INVITE_CODE_PATTERN = /^[a-z0-9]{8,32}$/;
+
+// Length of the code's hash that tags the room ID
+const ROOM_TAG_LENGTH = 12;
+
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto is not available - private rooms need a secure context (HTTPS)');
+  }
+  return crypto.subtle;
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Generate a random invite code for a new private room
+ */
+export const generateInviteCode = (): string => {
+  const bytes = new Uint8Array(INVITE_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+};
+
+/**
+ * Short tag that keeps a private room's ID apart from the public room and
+ * from other codes, without revealing the code
+ */
+export const getPrivateRoomTag = async (inviteCode: string): Promise<string> => {
+  const digest = await getSubtle().digest('SHA-256', new TextEncoder().encode(`room-tag:${inviteCode}`));
+  return toHex(digest).substring(0, ROOM_TAG_LENGTH);
+};
+
+/**
+ * Proof of knowing the invite code, sent as connection metadata when dialling a room member
+ */
+export const createRoomProof = async (inviteCode: string, roomId: string): Promise<string> => {
+  const subtle = getSubtle();
+  const key = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(inviteCode),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await subtle.sign('HMAC', key, new TextEncoder().encode(`room-proof:${roomId}`));
+  return toHex(signature);
+};
+
+/**
+ * Check an incoming channel's metadata against the room's proof. Public rooms
+ * (no expected proof) accept everyone.
+ */
+export const hasRoomProof = (metadata: unknown, expectedProof: string | null): boolean => {
+  if (!expectedProof) {
+    return true;
+  }
+
+  if (typeof metadata !== 'object' || metadata === null) {
+    return false;
+  }
+
+  const proof = (metadata as ChannelMetadata).roomProof;
+  if (typeof proof !== 'string' || proof.length !== expectedProof.length) {
+    return false;
+  }
+
+  // Compare every character so the time taken doesn't leak how much matched
+  let difference = 0;
+  for (let i = 0; i < proof.length; i++) {
+    difference |= proof.charCodeAt(i) ^ expectedProof.charCodeAt(i);
+  }
+  return difference === 0;
+};
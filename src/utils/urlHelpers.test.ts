@@ -0,0 +1,20 @@
+import { BattleParams, isSameBattle } from './urlHelpers';
+
+const params = (fields: Partial<BattleParams> = {}): BattleParams => ({
+  pokemonIndexes: [1, 4, 7],
+  sessionId: 'abcd',
+  ...fields
+});
+
+test('the same line-up in any order is the same battle', () => {
+  expect(isSameBattle(params(), params({ pokemonIndexes: [7, 1, 4] }))).toBe(true);
+  expect(isSameBattle(params(), params({ votingMethod: 'plurality' }))).toBe(true);
+});
+
+test('another round, room or voting method is another battle', () => {
+  expect(isSameBattle(params(), params({ sessionId: 'efgh' }))).toBe(false);
+  expect(isSameBattle(params(), params({ inviteCode: 'abcdefghij' }))).toBe(false);
+  // Going back to a link that only differs in `m` has to reload the battle
+  expect(isSameBattle(params({ votingMethod: 'approval' }), params({ votingMethod: 'ranked' }))).toBe(false);
+  expect(isSameBattle(params(), params({ votingMethod: 'approval' }))).toBe(false);
+});
@@ -1,36 +1,81 @@
 // URL parameter utilities for Pokemon battles
 
+import { VotingMethod } from '../types/voting';
+import { generateInviteCode, INVITE_CODE_PATTERN } from './roomAccess';
+import {
+  generateBattleSessionId,
+  isVotingMethod,
+  MAX_BATTLE_CANDIDATES,
+  MIN_BATTLE_CANDIDATES
+} from './votingHelpers';
+
 export interface BattleParams {
-  pokemon1Index: number;
-  pokemon2Index: number;
+  // Every candidate, in display order (the `p` parameter, e.g. p=1,4,7)
+  pokemonIndexes: number[];
+  // One round of this matchup (the `s` parameter) - also picks the P2P room
+  sessionId: string;
+  // Secret of a private room (the `k` parameter); public rooms have none
+  inviteCode?: string;
+  // How ballots are counted (the `m` parameter); plurality when absent
+  votingMethod?: VotingMethod;
 }
 
+const SESSION_ID_PATTERN = /^[a-z0-9]{4,32}$/;
+
+const sortedIndexes = (params: BattleParams): string => {
+  return [...params.pokemonIndexes].sort((a, b) => a - b).join(',');
+};
+
+/**
+ * Whether two params describe the same round of the same line-up, voted on
+ * the same way
+ */
+export const isSameBattle = (a: BattleParams, b: BattleParams): boolean => {
+  return sortedIndexes(a) === sortedIndexes(b) &&
+    a.sessionId === b.sessionId &&
+    a.inviteCode === b.inviteCode &&
+    (a.votingMethod ?? 'plurality') === (b.votingMethod ?? 'plurality');
+};
+
 /**
- * Parse URL search parameters to get Pokemon battle configuration
+ * Parse URL search parameters to get Pokemon battle configuration. A missing
+ * or malformed session starts a new round.
  */
 export const parseBattleParams = (searchParams: URLSearchParams): BattleParams | null => {
+  const p = searchParams.get('p');
   const p1 = searchParams.get('p1');
   const p2 = searchParams.get('p2');
+  const s = searchParams.get('s');
+  const k = searchParams.get('k');
+  const m = searchParams.get('m');
   
-  if (!p1 || !p2) {
+  // Links from before multi-candidate battles name two Pokemon as p1 and p2
+  const rawIndexes = p !== null ? p.split(',') : p1 && p2 ? [p1, p2] : null;
+  if (!rawIndexes) {
     return null;
   }
   
-  const pokemon1Index = parseInt(p1, 10);
-  const pokemon2Index = parseInt(p2, 10);
+  const pokemonIndexes = rawIndexes.map(value => parseInt(value, 10));
   
-  // Validate indexes are valid Pokemon numbers (1-151)
+  // Validate indexes are distinct, valid Pokemon numbers (1-151)
   if (
-    !Number.isInteger(pokemon1Index) || 
-    !Number.isInteger(pokemon2Index) ||
-    pokemon1Index < 1 || pokemon1Index > 151 ||
-    pokemon2Index < 1 || pokemon2Index > 151 ||
-    pokemon1Index === pokemon2Index
+    pokemonIndexes.length < MIN_BATTLE_CANDIDATES ||
+    pokemonIndexes.length > MAX_BATTLE_CANDIDATES ||
+    pokemonIndexes.some(index => !Number.isInteger(index) || index < 1 || index > 151) ||
+    pokemonIndexes.some((index, position) => pokemonIndexes.indexOf(index) !== position)
   ) {
     return null;
   }
   
-  return { pokemon1Index, pokemon2Index };
+  const sessionId = s && SESSION_ID_PATTERN.test(s) ? s : generateBattleSessionId();
+  const votingMethod = isVotingMethod(m) && m !== 'plurality' ? { votingMethod: m } : {};
+  if (k === null) {
+    return { pokemonIndexes, sessionId, ...votingMethod };
+  }
+
+  // A mangled invite code opens a new private room rather than the public one
+  const inviteCode = INVITE_CODE_PATTERN.test(k) ? k : generateInviteCode();
+  return { pokemonIndexes, sessionId, inviteCode, ...votingMethod };
 };
 
 /**
@@ -46,19 +91,48 @@ export const getCurrentBattleParams = (): BattleParams | null => {
 };
 
 /**
- * Update URL with new battle parameters
+ * Build the link to a battle - for a private room it includes the invite code
+ */
+export const buildBattleUrl = (battleParams: BattleParams, baseUrl: string = window.location.href): string => {
+  const url = new URL(baseUrl);
+  url.searchParams.delete('p1');
+  url.searchParams.delete('p2');
+  url.searchParams.set('p', battleParams.pokemonIndexes.join(','));
+  url.searchParams.set('s', battleParams.sessionId);
+
+  if (battleParams.inviteCode) {
+    url.searchParams.set('k', battleParams.inviteCode);
+  } else {
+    url.searchParams.delete('k');
+  }
+
+  if (battleParams.votingMethod && battleParams.votingMethod !== 'plurality') {
+    url.searchParams.set('m', battleParams.votingMethod);
+  } else {
+    url.searchParams.delete('m');
+  }
+
+  // Keep the candidate list readable - commas are fine unescaped in a query
+  return url.toString().replace(/%2C/gi, ',');
+};
+
+/**
+ * Update URL with new battle parameters. `replace` rewrites the current
+ * history entry instead of adding one (e.g. to fill in a missing session).
  */
-export const updateBattleUrl = (pokemon1Index: number, pokemon2Index: number): void => {
+export const updateBattleUrl = (battleParams: BattleParams, replace: boolean = false): void => {
   if (typeof window === 'undefined') {
     return;
   }
   
-  const url = new URL(window.location.href);
-  url.searchParams.set('p1', pokemon1Index.toString());
-  url.searchParams.set('p2', pokemon2Index.toString());
+  const url = buildBattleUrl(battleParams);
   
   // Update URL without page reload
-  window.history.pushState({}, '', url.toString());
+  if (replace) {
+    window.history.replaceState({}, '', url);
+  } else {
+    window.history.pushState({}, '', url);
+  }
 };
 
 /**
@@ -66,8 +140,8 @@ export const updateBattleUrl = (pokemon1Index: number, pokemon2Index: number): v
  */
 export const getDefaultBattleParams = (): BattleParams => {
   return {
-    pokemon1Index: 1,  // Bulbasaur
-    pokemon2Index: 25  // Pikachu
+    pokemonIndexes: [1, 25], // Bulbasaur vs Pikachu
+    sessionId: generateBattleSessionId()
   };
 };
 
@@ -80,8 +154,12 @@ export const clearBattleUrl = (): void => {
   }
   
   const url = new URL(window.location.href);
+  url.searchParams.delete('p');
   url.searchParams.delete('p1');
   url.searchParams.delete('p2');
+  url.searchParams.delete('s');
+  url.searchParams.delete('k');
+  url.searchParams.delete('m');
   
   window.history.pushState({}, '', url.toString());
 };
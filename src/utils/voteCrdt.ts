@@ -0,0 +1,93 @@
+// Conflict-free replicated vote set (CRDT)
+//
+// Each (userId, battleId) pair holds one element of an add-wins set whose
+// value is a last-writer-wins register: the vote with the later timestamp wins
+// and equal timestamps are broken by vote id. Merging is commutative,
+// associative and idempotent, so every replica ends up with the same votes no
+// matter in which order vote and SYNC_RESPONSE messages arrive. A userId is
+// derived from the voter's signing key (see identityService), so only that
+// key can write to its element.
+//
+// Changing a vote writes a new ballot with a later timestamp. Withdrawing one
+// writes a retracted ballot (a tombstone) that stays in the set, so the
+// withdrawal reaches every replica instead of being resurrected by a sync.
+
+import { Vote } from '../types/voting';
+import { isValidVote } from './votingHelpers';
+
+/**
+ * Key identifying a user's ballot in a battle
+ */
+export const getVoteKey = (vote: Pick<Vote, 'userId' | 'battleId'>): string => {
+  return `${vote.battleId}::${vote.userId}`;
+};
+
+/**
+ * Total order used to pick the winning write for a key
+ */
+export const compareVotes = (a: Vote, b: Vote): number => {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  if (a.id === b.id) {
+    return 0;
+  }
+  return a.id < b.id ? -1 : 1;
+};
+
+/**
+ * Ballots that count towards the results (tombstones excluded)
+ */
+export const getActiveVotes = (votes: Vote[]): Vote[] => {
+  return votes.filter(vote => !vote.retracted);
+};
+
+/**
+ * Timestamp for a new write to a user's ballot that is sure to supersede the
+ * current one, even if this clock is behind the one that wrote it
+ */
+export const getNextBallotTimestamp = (
+  votes: Vote[],
+  userId: string,
+  battleId: string,
+  now: number = Date.now()
+): number => {
+  const key = getVoteKey({ userId, battleId });
+  const current = votes.find(vote => getVoteKey(vote) === key);
+  return Math.max(now, current ? current.timestamp + 1 : 0);
+};
+
+/**
+ * Merge two replicas of the vote set
+ */
+export const mergeVotes = (current: Vote[], incoming: Vote[]): Vote[] => {
+  const merged = new Map<string, Vote>();
+
+  [...current, ...incoming].forEach(vote => {
+    if (!isValidVote(vote)) {
+      return;
+    }
+
+    const key = getVoteKey(vote);
+    const existing = merged.get(key);
+    if (!existing || compareVotes(vote, existing) > 0) {
+      merged.set(key, vote);
+    }
+  });
+
+  // Canonical order so every replica holds an identical list
+  return Array.from(merged.values()).sort(compareVotes);
+};
+
+/**
+ * Check whether merging would change the replica (used to skip no-op renders)
+ */
+export const hasNewVotes = (current: Vote[], incoming: Vote[]): boolean => {
+  const merged = mergeVotes(current, incoming);
+  if (merged.length !== current.length) {
+    return true;
+  }
+
+  const currentIds = new Set(current.map(vote => vote.id));
+  return merged.some(vote => !currentIds.has(vote.id));
+};
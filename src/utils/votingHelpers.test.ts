@@ -0,0 +1,159 @@
+import { Vote } from '../types/voting';
+import { generateRoomId } from './p2pHelpers';
+import {
+  calculateApprovalResults,
+  calculateRunoffResults,
+  calculateVoteResults,
+  determineWinner,
+  generateBattleId,
+  getBrowserVoteChoices,
+  getBrowserVoteForBattle,
+  getSuddenDeathCloseTime,
+  isValidBallotVote,
+  rankCandidates,
+  recordBrowserVote
+} from './votingHelpers';
+
+let nextId = 0;
+const vote = (pokemonName: string, timestamp: number): Vote => ({
+  id: `vote_${nextId++}`,
+  userId: `user_${nextId}`,
+  pokemonName,
+  battleId: 'battle_1_vs_4',
+  timestamp
+});
+
+const ballot = (choices: string[], timestamp: number): Vote => ({
+  ...vote(choices[0], timestamp),
+  choices
+});
+
+test('tells no votes apart from a tie', () => {
+  expect(determineWinner(calculateVoteResults([])).kind).toBe('no-votes');
+
+  const outcome = determineWinner(calculateVoteResults([vote('bulbasaur', 1), vote('charmander', 2)]));
+  expect(outcome).toMatchObject({ kind: 'tie', tiedPokemon: ['bulbasaur', 'charmander'] });
+});
+
+test('a higher count after an earlier tie wins whatever the key order', () => {
+  // bulbasaur and charmander tie first, squirtle beats both later in the key order
+  const votes = [
+    vote('bulbasaur', 1), vote('charmander', 2),
+    vote('squirtle', 3), vote('squirtle', 4)
+  ];
+
+  const outcome = determineWinner(calculateVoteResults(votes));
+  expect(outcome).toMatchObject({ kind: 'winner', winner: 'squirtle' });
+  expect(outcome.ranking.map(entry => [entry.pokemonName, entry.rank])).toEqual([
+    ['squirtle', 1], ['bulbasaur', 2], ['charmander', 2]
+  ]);
+});
+
+test('earliest-to-reach favours the Pokemon that got to the tied count first', () => {
+  const votes = [vote('charmander', 10), vote('bulbasaur', 20), vote('charmander', 30), vote('bulbasaur', 25)];
+
+  expect(determineWinner(calculateVoteResults(votes), { mode: 'earliest-to-reach' }))
+    .toMatchObject({ kind: 'winner', winner: 'bulbasaur', decidedBy: 'earliest-to-reach' });
+});
+
+test('base-stats favours the higher base-stat total and keeps a tie on equal totals', () => {
+  const results = calculateVoteResults([vote('bulbasaur', 1), vote('charmander', 2)]);
+
+  expect(determineWinner(results, { mode: 'base-stats', baseStatTotals: { bulbasaur: 318, charmander: 309 } }))
+    .toMatchObject({ kind: 'winner', winner: 'bulbasaur', decidedBy: 'base-stats' });
+  expect(determineWinner(results, { mode: 'base-stats', baseStatTotals: { bulbasaur: 318, charmander: 318 } }).kind)
+    .toBe('tie');
+});
+
+test('sudden death adds rounds until one breaks the tie, up to a limit', () => {
+  const tiedAtEnd = [vote('bulbasaur', 100), vote('charmander', 200)];
+
+  expect(getSuddenDeathCloseTime([vote('bulbasaur', 100)], 1000, 300)).toBe(1000);
+  expect(getSuddenDeathCloseTime([...tiedAtEnd, vote('charmander', 1500)], 1000, 300)).toBe(1600);
+  expect(getSuddenDeathCloseTime(tiedAtEnd, 1000, 300)).toBe(1900);
+});
+
+test('ranks every candidate of a multi-candidate battle, unvoted ones last', () => {
+  const votes = [vote('squirtle', 1), vote('pikachu', 2), vote('squirtle', 3)];
+  const ranking = rankCandidates(['bulbasaur', 'charmander', 'squirtle', 'pikachu'], calculateVoteResults(votes));
+
+  expect(ranking.map(entry => [entry.pokemonName, entry.count, entry.rank])).toEqual([
+    ['squirtle', 2, 1], ['pikachu', 1, 2], ['bulbasaur', 0, 3], ['charmander', 0, 3]
+  ]);
+});
+
+test('approval counts a ballot once for every Pokemon it approves', () => {
+  const results = calculateApprovalResults([
+    ballot(['bulbasaur', 'squirtle'], 1),
+    ballot(['squirtle'], 2),
+    ballot(['charmander', 'squirtle', 'bulbasaur'], 3)
+  ]);
+
+  expect(results.squirtle).toMatchObject({ count: 3, percentage: 100 });
+  expect(results.bulbasaur.count).toBe(2);
+  expect(determineWinner(results)).toMatchObject({ kind: 'winner', winner: 'squirtle' });
+});
+
+test('instant-runoff eliminates the weakest and passes their ballots on', () => {
+  // squirtle leads on first preferences, but pikachu picks up the eliminated ballots.
+  // charmander and pikachu tie for last in round 2; round 1 had charmander behind.
+  const votes = [
+    ballot(['squirtle'], 1), ballot(['squirtle'], 2), ballot(['squirtle'], 3), ballot(['squirtle'], 4),
+    ballot(['pikachu'], 5), ballot(['pikachu'], 6), ballot(['pikachu'], 7),
+    ballot(['charmander', 'pikachu'], 8), ballot(['charmander', 'pikachu'], 9),
+    ballot(['bulbasaur', 'charmander'], 10)
+  ];
+
+  const { results, rounds } = calculateRunoffResults(votes);
+
+  expect(rounds).toEqual([
+    { counts: { squirtle: 4, pikachu: 3, charmander: 2, bulbasaur: 1 }, eliminated: 'bulbasaur', exhausted: 0 },
+    { counts: { squirtle: 4, pikachu: 3, charmander: 3 }, eliminated: 'charmander', exhausted: 0 },
+    { counts: { squirtle: 4, pikachu: 5 }, exhausted: 1 }
+  ]);
+  expect(determineWinner(results)).toMatchObject({ kind: 'winner', winner: 'pikachu' });
+});
+
+test('instant-runoff stops at a majority and leaves an even split to the tie-breaker', () => {
+  const majority = calculateRunoffResults([
+    ballot(['squirtle', 'pikachu'], 1), ballot(['squirtle'], 2), ballot(['pikachu'], 3)
+  ]);
+  expect(majority.rounds).toHaveLength(1);
+  expect(determineWinner(majority.results)).toMatchObject({ kind: 'winner', winner: 'squirtle' });
+
+  const split = calculateRunoffResults([ballot(['squirtle', 'pikachu'], 1), ballot(['pikachu', 'squirtle'], 2)]);
+  expect(split.rounds).toEqual([{ counts: { squirtle: 1, pikachu: 1 }, exhausted: 0 }]);
+  expect(determineWinner(split.results, { mode: 'earliest-to-reach' }))
+    .toMatchObject({ kind: 'winner', winner: 'squirtle' });
+});
+
+test('received ballots must suit the voting method exactly', () => {
+  const candidates = ['bulbasaur', 'charmander', 'squirtle'];
+
+  expect(isValidBallotVote(vote('bulbasaur', 1), 'plurality', candidates)).toBe(true);
+  expect(isValidBallotVote(ballot(['bulbasaur', 'squirtle'], 2), 'plurality', candidates)).toBe(false);
+
+  expect(isValidBallotVote(ballot(['squirtle', 'bulbasaur'], 3), 'approval', candidates)).toBe(true);
+  expect(isValidBallotVote(ballot(['squirtle', 'squirtle'], 4), 'approval', candidates)).toBe(false);
+  expect(isValidBallotVote(ballot(['squirtle', 'pikachu'], 5), 'approval', candidates)).toBe(false);
+
+  // A repeated preference would count twice in later runoff rounds
+  expect(isValidBallotVote(ballot(['charmander', 'bulbasaur', 'charmander'], 6), 'ranked', candidates)).toBe(false);
+  // pokemonName is what older builds count, so it has to match the first choice
+  expect(isValidBallotVote({ ...ballot(['charmander', 'bulbasaur'], 7), pokemonName: 'bulbasaur' }, 'ranked', candidates)).toBe(false);
+});
+
+test('the voting method is part of the battle and its room', () => {
+  expect(generateBattleId([4, 1], 'abcd')).toBe('battle_1_vs_4-abcd');
+  expect(generateBattleId([4, 1], 'abcd', 'approval')).toBe('battle_1_vs_4-abcd-approval');
+  expect(generateRoomId([4, 1], 'abcd', 'ranked', 'tag')).toBe('battle_1_vs_4-abcd-ranked-ptag');
+  expect(generateRoomId([4, 1], 'abcd')).not.toBe(generateRoomId([4, 1], 'abcd', 'ranked'));
+});
+
+test('this browser remembers every choice of its ballot', () => {
+  recordBrowserVote('battle_1_vs_4_vs_7-abcd-ranked', ['squirtle', 'bulbasaur']);
+  recordBrowserVote('battle_1_vs_4-abcd', ['charmander']);
+
+  expect(getBrowserVoteChoices(getBrowserVoteForBattle('battle_1_vs_4_vs_7-abcd-ranked')!)).toEqual(['squirtle', 'bulbasaur']);
+  expect(getBrowserVoteChoices(getBrowserVoteForBattle('battle_1_vs_4-abcd')!)).toEqual(['charmander']);
+});
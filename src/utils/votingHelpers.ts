@@ -1,6 +1,23 @@
 // Helper functions for voting logic and calculations
 
-import { Vote, VoteResults, BattleState } from '../types/voting';
+import {
+  ApprovalBallot,
+  BattleOutcome,
+  BattleState,
+  PluralityBallot,
+  RankedBallot,
+  RankedPokemon,
+  RunoffRound,
+  TieBreakOptions,
+  Vote,
+  VoteResults,
+  VoteTally,
+  VotingMethod
+} from '../types/voting';
+import { Pokemon } from '../types/pokemon';
+
+// Sudden death gives up and declares a tie after this many extra rounds
+export const MAX_SUDDEN_DEATH_ROUNDS = 3;
 
 /**
  * Calculate vote results and percentages
@@ -31,46 +48,327 @@ export const calculateVoteResults = (votes: Vote[]): VoteResults => {
   return results;
 };
 
+export const VOTING_METHODS: VotingMethod[] = ['plurality', 'approval', 'ranked'];
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+  plurality: 'Plurality',
+  approval: 'Approval',
+  ranked: 'Ranked choice',
+};
+
+export const isVotingMethod = (value: unknown): value is VotingMethod => {
+  return typeof value === 'string' && (VOTING_METHODS as string[]).includes(value);
+};
+
 /**
- * Determine the winner based on vote counts
+ * A vote's choices in order, without repeats. Plurality votes and votes from
+ * builds before voting methods have just their pokemonName.
  */
-export const determineWinner = (results: VoteResults): string | null => {
-  const pokemonNames = Object.keys(results);
-  
-  if (pokemonNames.length === 0) return null;
-  
-  let winner = pokemonNames[0];
-  let maxVotes = results[winner].count;
-  let isTie = false;
+export const getVoteChoices = (vote: Vote): string[] => {
+  const choices = vote.choices && vote.choices.length > 0 ? vote.choices : [vote.pokemonName];
+  return choices.filter((name, index) => choices.indexOf(name) === index);
+};
 
-  for (let i = 1; i < pokemonNames.length; i++) {
-    const currentPokemon = pokemonNames[i];
-    const currentVotes = results[currentPokemon].count;
-    
-    if (currentVotes > maxVotes) {
-      winner = currentPokemon;
-      maxVotes = currentVotes;
-      isTie = false;
-    } else if (currentVotes === maxVotes && maxVotes > 0) {
-      isTie = true;
+export const toPluralityBallot = (vote: Vote): PluralityBallot => {
+  return { method: 'plurality', pokemonName: vote.pokemonName };
+};
+
+export const toApprovalBallot = (vote: Vote): ApprovalBallot => {
+  return { method: 'approval', approved: getVoteChoices(vote) };
+};
+
+export const toRankedBallot = (vote: Vote): RankedBallot => {
+  return { method: 'ranked', preferences: getVoteChoices(vote) };
+};
+
+/**
+ * The Vote fields that carry a ballot of the given method. Plurality keeps
+ * the single pokemonName older builds understand.
+ */
+export const getBallotFields = (
+  method: VotingMethod,
+  choices: string[]
+): Pick<Vote, 'pokemonName' | 'choices'> => {
+  if (method === 'plurality') {
+    return { pokemonName: choices[0] };
+  }
+  return { pokemonName: choices[0], choices: [...choices] };
+};
+
+/**
+ * Whether a ballot's choices suit the method: exactly one for plurality, at
+ * least one and no repeats otherwise, all of them in the battle
+ */
+export const isValidBallot = (method: VotingMethod, choices: string[], candidateNames: string[]): boolean => {
+  if (choices.length === 0 || (method === 'plurality' && choices.length > 1)) {
+    return false;
+  }
+  return new Set(choices).size === choices.length && choices.every(name => candidateNames.includes(name));
+};
+
+/**
+ * Whether a received vote holds a valid ballot for the method. Unlike
+ * getVoteChoices this keeps repeats, so a padded ballot is refused rather
+ * than quietly cleaned up, and pokemonName must lead the choices.
+ */
+export const isValidBallotVote = (vote: Vote, method: VotingMethod, candidateNames: string[]): boolean => {
+  const choices = vote.choices && vote.choices.length > 0 ? vote.choices : [vote.pokemonName];
+  return choices[0] === vote.pokemonName && isValidBallot(method, choices, candidateNames);
+};
+
+/**
+ * Count approvals. A ballot adds one to every Pokemon it approves, so
+ * percentages are the share of ballots approving each and can sum past 100.
+ */
+export const calculateApprovalResults = (votes: Vote[]): VoteResults => {
+  const results: VoteResults = {};
+
+  votes.forEach(vote => {
+    toApprovalBallot(vote).approved.forEach(pokemonName => {
+      if (!results[pokemonName]) {
+        results[pokemonName] = { count: 0, percentage: 0, votes: [] };
+      }
+      results[pokemonName].count++;
+      results[pokemonName].votes.push(vote);
+    });
+  });
+
+  Object.keys(results).forEach(pokemonName => {
+    results[pokemonName].percentage = votes.length > 0 ? (results[pokemonName].count / votes.length) * 100 : 0;
+  });
+
+  return results;
+};
+
+/**
+ * Pick the Pokemon to eliminate from those tied on the fewest ballots: the
+ * one with fewer in the latest earlier round that tells them apart, then by
+ * name, so every peer eliminates the same one
+ */
+const pickEliminated = (tied: string[], earlierRounds: RunoffRound[]): string => {
+  let candidates = [...tied].sort();
+  for (let index = earlierRounds.length - 1; index >= 0 && candidates.length > 1; index--) {
+    const { counts } = earlierRounds[index];
+    const fewest = Math.min(...candidates.map(name => counts[name]));
+    candidates = candidates.filter(name => counts[name] === fewest);
+  }
+  return candidates[0];
+};
+
+/**
+ * Give each ranked ballot to its highest-ranked Pokemon still in the race.
+ * Percentages are of the ballots still in play.
+ */
+const countRunoffRound = (
+  ballots: Array<{ vote: Vote; preferences: string[] }>,
+  remaining: Set<string>
+): { results: VoteResults; exhausted: number } => {
+  const results: VoteResults = {};
+  remaining.forEach(name => {
+    results[name] = { count: 0, percentage: 0, votes: [] };
+  });
+
+  let exhausted = 0;
+  ballots.forEach(({ vote, preferences }) => {
+    const choice = preferences.find(name => remaining.has(name));
+    if (choice) {
+      results[choice].count++;
+      results[choice].votes.push(vote);
+    } else {
+      exhausted++;
     }
+  });
+
+  const inPlay = ballots.length - exhausted;
+  Object.keys(results).forEach(name => {
+    results[name].percentage = inPlay > 0 ? (results[name].count / inPlay) * 100 : 0;
+  });
+
+  return { results, exhausted };
+};
+
+/**
+ * Instant-runoff count. Each round gives every ballot to its highest-ranked
+ * Pokemon still in the race; if nobody holds a majority of the ballots still
+ * in play, the Pokemon with the fewest is eliminated and its ballots move on.
+ * Stops at a majority, or when the remaining Pokemon all tie - the
+ * tie-breaker settles that like any other tie.
+ */
+export const calculateRunoffResults = (votes: Vote[]): VoteTally => {
+  const ballots = votes.map(vote => ({ vote, preferences: toRankedBallot(vote).preferences }));
+  const remaining = new Set(ballots.flatMap(ballot => ballot.preferences));
+  const rounds: RunoffRound[] = [];
+  let results: VoteResults = {};
+
+  while (remaining.size > 0) {
+    const round = countRunoffRound(ballots, remaining);
+    results = round.results;
+
+    const counts: Record<string, number> = {};
+    Object.entries(results).forEach(([name, data]) => {
+      counts[name] = data.count;
+    });
+
+    const countValues = Object.values(counts);
+    const fewest = Math.min(...countValues);
+    const most = Math.max(...countValues);
+    if (most * 2 > ballots.length - round.exhausted || fewest === most) {
+      rounds.push({ counts, exhausted: round.exhausted });
+      break;
+    }
+
+    const eliminated = pickEliminated(Object.keys(counts).filter(name => counts[name] === fewest), rounds);
+    rounds.push({ counts, eliminated, exhausted: round.exhausted });
+    remaining.delete(eliminated);
   }
 
-  return isTie ? null : (maxVotes > 0 ? winner : null);
+  return { results, rounds };
 };
 
 /**
- * Check if user has already voted in this battle
+ * Tally votes with the battle's voting method
+ */
+export const tallyVotes = (votes: Vote[], method: VotingMethod = 'plurality'): VoteTally => {
+  switch (method) {
+    case 'approval':
+      return { results: calculateApprovalResults(votes) };
+    case 'ranked':
+      return calculateRunoffResults(votes);
+    default:
+      return { results: calculateVoteResults(votes) };
+  }
+};
+
+/**
+ * Rank Pokemon by vote count, most votes first. Names order equal counts so
+ * every peer lists them the same way.
+ */
+export const rankPokemon = (results: VoteResults): RankedPokemon[] => {
+  const sorted = Object.entries(results)
+    .sort(([nameA, a], [nameB, b]) => b.count - a.count || nameA.localeCompare(nameB));
+
+  return sorted.map(([pokemonName, data]) => ({
+    pokemonName,
+    count: data.count,
+    percentage: data.percentage,
+    rank: sorted.findIndex(([, other]) => other.count === data.count) + 1,
+  }));
+};
+
+/**
+ * Rank every candidate in a battle, including those nobody has voted for yet
+ */
+export const rankCandidates = (candidateNames: string[], results: VoteResults): RankedPokemon[] => {
+  const allResults: VoteResults = { ...results };
+  candidateNames.forEach(name => {
+    if (!allResults[name]) {
+      allResults[name] = { count: 0, percentage: 0, votes: [] };
+    }
+  });
+  return rankPokemon(allResults);
+};
+
+/**
+ * Narrow tied Pokemon down to those with the best score (highest wins)
+ */
+const keepBest = (names: string[], score: (name: string) => number): string[] => {
+  const scores = names.map(score);
+  const best = Math.max(...scores);
+  return names.filter((_, index) => scores[index] === best);
+};
+
+/**
+ * Settle a tie with the configured tie-breaker. Returns the Pokemon still tied
+ * afterwards - one if the tie is broken.
+ */
+const breakTie = (tied: string[], results: VoteResults, options: TieBreakOptions): string[] => {
+  switch (options.mode) {
+    case 'earliest-to-reach':
+      // The vote that brought each Pokemon to the tied count - earlier is better
+      return keepBest(tied, name => -Math.max(...results[name].votes.map(vote => vote.timestamp)));
+    case 'base-stats': {
+      const totals = options.baseStatTotals;
+      return totals ? keepBest(tied, name => totals[name] ?? 0) : tied;
+    }
+    default:
+      // Sudden death extends the battle instead, see getSuddenDeathCloseTime
+      return tied;
+  }
+};
+
+/**
+ * Determine the battle's outcome from vote counts. Independent of the order
+ * of `results`, so every peer reaches the same outcome from the same votes.
+ */
+export const determineWinner = (
+  results: VoteResults,
+  options: TieBreakOptions = { mode: 'none' }
+): BattleOutcome => {
+  const ranking = rankPokemon(results);
+  const leaders = ranking.filter(entry => entry.rank === 1).map(entry => entry.pokemonName);
+
+  if (leaders.length === 0) {
+    return { kind: 'no-votes', ranking };
+  }
+  if (leaders.length === 1) {
+    return { kind: 'winner', winner: leaders[0], ranking };
+  }
+
+  const stillTied = breakTie(leaders, results, options);
+  return stillTied.length === 1
+    ? { kind: 'winner', winner: stillTied[0], ranking, decidedBy: options.mode }
+    : { kind: 'tie', tiedPokemon: stillTied, ranking };
+};
+
+/**
+ * The winner's name, or null for no votes or a tie
+ */
+export const getOutcomeWinner = (outcome: BattleOutcome): string | null => {
+  return outcome.kind === 'winner' ? outcome.winner : null;
+};
+
+/**
+ * When a sudden-death battle really closes: every round adds suddenDeathMs
+ * while the votes cast so far still tie. Derived from the vote set, so peers
+ * that hold the same votes extend the battle identically.
+ */
+export const getSuddenDeathCloseTime = (
+  votes: Vote[],
+  endTime: number,
+  suddenDeathMs: number,
+  votingMethod: VotingMethod = 'plurality'
+): number => {
+  let closesAt = endTime;
+  for (let round = 0; round < MAX_SUDDEN_DEATH_ROUNDS; round++) {
+    const countedVotes = getVotesBeforeClose(votes, closesAt);
+    if (determineWinner(tallyVotes(countedVotes, votingMethod).results).kind !== 'tie') {
+      break;
+    }
+    closesAt += suddenDeathMs;
+  }
+  return closesAt;
+};
+
+/**
+ * Sum of a Pokemon's base stats, for the base-stats tie-breaker
+ */
+export const getBaseStatTotal = (pokemon: Pokemon): number => {
+  const { hp, attack, defense, specialAttack, specialDefense, speed } = pokemon.stats;
+  return hp + attack + defense + specialAttack + specialDefense + speed;
+};
+
+/**
+ * Check if user currently has a vote in this battle (a withdrawn vote doesn't count)
  */
 export const hasUserVoted = (votes: Vote[], userId: string, battleId: string): boolean => {
-  return votes.some(vote => vote.userId === userId && vote.battleId === battleId);
+  return votes.some(vote => vote.userId === userId && vote.battleId === battleId && !vote.retracted);
 };
 
 /**
- * Get user's vote for a specific battle
+ * Get user's current vote for a specific battle
  */
 export const getUserVote = (votes: Vote[], userId: string, battleId: string): Vote | undefined => {
-  return votes.find(vote => vote.userId === userId && vote.battleId === battleId);
+  return votes.find(vote => vote.userId === userId && vote.battleId === battleId && !vote.retracted);
 };
 
 /**
@@ -97,31 +395,6 @@ export const generateVoteId = (): string => {
   return `vote_${timestamp}_${randomStr}`;
 };
 
-/**
- * Generate unique session ID for tracking user across tabs
- */
-export const generateSessionId = (): string => {
-  const timestamp = Date.now().toString(36);
-  const randomStr = Math.random().toString(36).substring(2, 10);
-  return `session_${timestamp}_${randomStr}`;
-};
-
-// Single user ID per tab instance
-let tabUserId: string | null = null;
-
-/**
- * Get or create user session ID - each tab/instance gets unique ID for P2P testing
- */
-export const getUserSessionId = (): string => {
-  // For P2P testing, each tab should be treated as a separate user
-  // Generate a unique session ID for this specific tab/instance once
-  if (!tabUserId) {
-    tabUserId = generateSessionId();
-    console.log(`🆔 Generated unique user ID for this tab: ${tabUserId}`);
-  }
-  return tabUserId;
-};
-
 /**
  * Check if this is a duplicate vote from the same user
  */
@@ -155,23 +428,30 @@ export const sortPokemonByVotes = (results: VoteResults): Array<{ name: string;
 };
 
 /**
- * Check if battle is still active (within time limit)
+ * Check if battle is still active (before its end time, if it has one).
+ * Pass room time as `now` so every peer closes the battle at the same moment.
  */
-export const isBattleActive = (battleState: BattleState, maxDurationMs: number = 30 * 60 * 1000): boolean => {
-  const currentTime = Date.now();
-  const elapsedTime = currentTime - battleState.startTime;
-  return battleState.isActive && elapsedTime < maxDurationMs;
+export const isBattleActive = (battleState: BattleState, now: number = Date.now()): boolean => {
+  const closesAt = battleState.closesAt ?? battleState.endTime;
+  return battleState.isActive && (closesAt === undefined || now < closesAt);
 };
 
 /**
  * Calculate battle progress percentage
  */
-export const calculateBattleProgress = (startTime: number, durationMs: number): number => {
-  const elapsed = Date.now() - startTime;
+export const calculateBattleProgress = (startTime: number, durationMs: number, now: number = Date.now()): number => {
+  const elapsed = now - startTime;
   const progress = (elapsed / durationMs) * 100;
   return Math.min(Math.max(progress, 0), 100);
 };
 
+/**
+ * Votes cast before the battle closed - later ones never count
+ */
+export const getVotesBeforeClose = (votes: Vote[], endTime?: number): Vote[] => {
+  return endTime === undefined ? votes : votes.filter(vote => vote.timestamp <= endTime);
+};
+
 // ===============================
 // BROWSER-WIDE VOTE TRACKING
 // ===============================
@@ -179,6 +459,8 @@ export const calculateBattleProgress = (startTime: number, durationMs: number):
 interface BrowserVoteRecord {
   battleId: string;
   pokemonName: string;
+  // The whole approval or ranked ballot; plurality records have just pokemonName
+  choices?: string[];
   timestamp: number;
   userAgent: string; // For additional verification
 }
@@ -186,12 +468,32 @@ interface BrowserVoteRecord {
 const BROWSER_VOTES_KEY = 'pokemon_battle_browser_votes';
 const VOTE_EXPIRY_HOURS = 24; // Votes expire after 24 hours
 
+// How many Pokemon a battle can have
+export const MIN_BATTLE_CANDIDATES = 2;
+export const MAX_BATTLE_CANDIDATES = 9;
+
 /**
- * Generate battle ID from Pokemon indexes
+ * Generate battle ID from the candidates' indexes (in any order) and the
+ * round's session ID, so a rematch of the same line-up is a separate battle.
+ * Other voting methods than plurality are a separate battle too.
  */
-export const generateBattleId = (pokemon1Index: number, pokemon2Index: number): string => {
-  const sorted = [pokemon1Index, pokemon2Index].sort((a, b) => a - b);
-  return `battle_${sorted[0]}_vs_${sorted[1]}`;
+export const generateBattleId = (
+  pokemonIndexes: number[],
+  sessionId: string,
+  votingMethod: VotingMethod = 'plurality'
+): string => {
+  const sorted = [...pokemonIndexes].sort((a, b) => a - b);
+  const battleId = `battle_${sorted.join('_vs_')}-${sessionId}`;
+  return votingMethod === 'plurality' ? battleId : `${battleId}-${votingMethod}`;
+};
+
+/**
+ * Generate a session ID for a new round of a battle (the URL's `s` parameter)
+ */
+export const generateBattleSessionId = (): string => {
+  const timestamp = Date.now().toString(36);
+  const randomStr = Math.random().toString(36).substring(2, 8);
+  return `${timestamp}${randomStr}`;
 };
 
 /**
@@ -251,9 +553,16 @@ export const getBrowserVoteForBattle = (battleId: string): BrowserVoteRecord | n
 };
 
 /**
- * Record a vote for this browser (across all tabs)
+ * Get the choices of this browser's ballot for a battle, in ballot order
+ */
+export const getBrowserVoteChoices = (record: BrowserVoteRecord): string[] => {
+  return record.choices && record.choices.length > 0 ? record.choices : [record.pokemonName];
+};
+
+/**
+ * Record a vote for this browser (across all tabs) - every choice of the ballot
  */
-export const recordBrowserVote = (battleId: string, pokemonName: string): void => {
+export const recordBrowserVote = (battleId: string, choices: string[]): void => {
   const votes = getBrowserVotes();
   
   // Remove any existing vote for this battle
@@ -262,7 +571,8 @@ export const recordBrowserVote = (battleId: string, pokemonName: string): void =
   // Add new vote
   const newVote: BrowserVoteRecord = {
     battleId,
-    pokemonName,
+    pokemonName: choices[0],
+    ...(choices.length > 1 && { choices: [...choices] }),
     timestamp: Date.now(),
     userAgent: navigator.userAgent.substring(0, 100) // Truncate for storage
   };
@@ -270,7 +580,16 @@ export const recordBrowserVote = (battleId: string, pokemonName: string): void =
   filteredVotes.push(newVote);
   saveBrowserVotes(filteredVotes);
   
-  console.log(`🗳️ Recorded browser vote for ${battleId}: ${pokemonName}`);
+  console.log(`🗳️ Recorded browser vote for ${battleId}: ${choices.join(', ')}`);
+};
+
+/**
+ * Forget this browser's vote for a battle after it was withdrawn
+ */
+export const removeBrowserVote = (battleId: string): void => {
+  const votes = getBrowserVotes();
+  saveBrowserVotes(votes.filter(vote => vote.battleId !== battleId));
+  console.log(`↩️ Removed browser vote for ${battleId}`);
 };
 
 /**